@@ -1,175 +1,182 @@
 'use client';
 
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
+import { useEffect, useRef, useState } from 'react';
+import { FormProvider, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-
-// Form validation schema
-const calculatorSchema = z.object({
-  numberOfWorkers: z.number().min(1, 'Must have at least 1 worker').max(10000, 'Too many workers'),
-  currentWeekHoursPerWorker: z.number().min(1, 'Current week hours per worker must be at least 1').max(168, 'Cannot exceed 168 hours per week'),
-  targetWeekHoursPerWorker: z.number().min(1, 'Target week hours per worker must be at least 1').max(168, 'Cannot exceed 168 hours per week'),
-  maxExtraHoursPerWorker: z.number().min(0, 'Max extra hours per worker cannot be negative').max(50, 'Max extra hours per worker too high'),
-  hourlyRate: z.number().min(0.01, 'Hourly rate must be positive').max(1000, 'Hourly rate too high'),
-});
-
-type CalculatorFormData = z.infer<typeof calculatorSchema>;
-
-interface Proposal {
-  option: string;
-  description: string;
-  totalWeeklyHours: number;
-  uncoveredHours: number;
-  costImpact: number;
-  costPercentageChange: number;
-  efficiency: string;
-  details: string;
-}
+import {
+  calculateMetrics,
+  calculateProposals,
+  calculatorSchema,
+  currentCoverage,
+  generateRoster,
+  defaultCalculatorValues,
+  toCalculatorInputs,
+  type CalculatorFormData,
+  describeOvertimeRule,
+  fromWeekly,
+  payPeriods,
+  type CalculatorInputs,
+  type CoverageSummary,
+  type MonteCarloRequest,
+  type MonteCarloSummary,
+  type PayPeriod,
+  type Proposal,
+  type RosterRow,
+  type WeeklyGrid,
+} from '@/lib/calculator';
+import OvertimeRuleFields from '@/components/calculator/overtime-rule-fields';
+import LaborLawFields from '@/components/calculator/labor-law-fields';
+import WorkerGroupFields from '@/components/calculator/worker-group-fields';
+import PartTimeHiringFields from '@/components/calculator/part-time-hiring-fields';
+import LaborBurdenFields from '@/components/calculator/labor-burden-fields';
+import AbsenceRatesFields from '@/components/calculator/absence-rates-fields';
+import HolidayCalendarFields from '@/components/calculator/holiday-calendar-fields';
+import WeeklyBudgetFields from '@/components/calculator/weekly-budget-fields';
+import UncoveredCostFields from '@/components/calculator/uncovered-cost-fields';
+import AgencyStaffingFields from '@/components/calculator/agency-staffing-fields';
+import PlanningHorizonFields from '@/components/calculator/planning-horizon-fields';
+import HorizonTable from '@/components/calculator/horizon-table';
+import DemandCurveFields from '@/components/calculator/demand-curve-fields';
+import CoverageHeatmap from '@/components/calculator/coverage-heatmap';
+import ShiftTemplateFields from '@/components/calculator/shift-template-fields';
+import ShiftDifferentialFields from '@/components/calculator/shift-differential-fields';
+import RosterGrid from '@/components/calculator/roster-grid';
+import FatigueRulesFields from '@/components/calculator/fatigue-rules-fields';
+import GoalSeekPanel from '@/components/calculator/goal-seek-panel';
+import SensitivityTornado from '@/components/calculator/sensitivity-tornado';
+import BreakEvenChart from '@/components/calculator/break-even-chart';
+import SeasonalDemandFields from '@/components/calculator/seasonal-demand-fields';
+import SeasonalForecastChart from '@/components/calculator/seasonal-forecast-chart';
+import UncertaintyFields from '@/components/calculator/uncertainty-fields';
 
 export default function CalculatorPage() {
   const [proposals, setProposals] = useState<Proposal[]>([]);
   const [isCalculating, setIsCalculating] = useState(false);
+  const [demand, setDemand] = useState<{ required: WeeklyGrid; current: CoverageSummary } | null>(null);
+  const [lastInputs, setLastInputs] = useState<CalculatorInputs | null>(null);
+  const [roster, setRoster] = useState<{ title: string; rows: RosterRow[] } | null>(null);
+  const [simulation, setSimulation] = useState<{ proposals: Proposal[]; summaries: MonteCarloSummary[] } | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+  const [payPeriod, setPayPeriod] = useState<PayPeriod>('weekly');
+  const simulationWorker = useRef<Worker | null>(null);
 
-  const {
-    register,
-    handleSubmit,
-    formState: { errors },
-    watch,
-  } = useForm<CalculatorFormData>({
+  // Stop a simulation still running when the page goes away
+  useEffect(() => () => simulationWorker.current?.terminate(), []);
+
+  const form = useForm<CalculatorFormData>({
     resolver: zodResolver(calculatorSchema),
-    defaultValues: {
-      numberOfWorkers: 10,
-      currentWeekHoursPerWorker: 40,
-      targetWeekHoursPerWorker: 50,
-      maxExtraHoursPerWorker: 5,
-      hourlyRate: 25,
+    defaultValues: defaultCalculatorValues,
+  });
+  const { handleSubmit, watch } = form;
+
+  const workerGroups = watch('workerGroups');
+  const overtimeRule = watch('overtimeRule');
+  const absenceRates = watch('absenceRates');
+  const holidayCalendar = watch('holidayCalendar');
+
+  // Calculate totals across worker groups
+  const {
+    numberOfWorkers,
+    totalCurrentWeekHours,
+    totalTargetWeekHours,
+    currentWeeklyCost,
+    averageHourlyRate,
+    totalHourDifference,
+    maxTotalExtraHours,
+    absenceHours,
+    holidayHours,
+    holidayPremiumCost,
+  } = calculateMetrics({
+    workerGroups: (workerGroups ?? []).map((group) => ({
+      role: group.role,
+      headcount: group.headcount || 0,
+      hourlyRate: group.hourlyRate || 0,
+      currentWeekHours: group.currentWeekHours || 0,
+      targetWeekHours: group.targetWeekHours || 0,
+      maxExtraHours: group.maxExtraHours || 0,
+    })),
+    absenceRates: {
+      absenceRatePercent: absenceRates?.absenceRatePercent || 0,
+      monthlyAttritionPercent: absenceRates?.monthlyAttritionPercent || 0,
+      vacancyWeeks: absenceRates?.vacancyWeeks || 0,
+    },
+    holidayCalendar: holidayCalendar && {
+      ...holidayCalendar,
+      premiumMultiplier: holidayCalendar.premiumMultiplier || 1,
+      takenOffPercent: holidayCalendar.takenOffPercent || 0,
     },
+    overtimeRule: overtimeRule && { ...overtimeRule, daysPerWeek: overtimeRule.daysPerWeek || 5 },
   });
 
-  const numberOfWorkers = watch('numberOfWorkers');
-  const currentWeekHoursPerWorker = watch('currentWeekHoursPerWorker');
-  const targetWeekHoursPerWorker = watch('targetWeekHoursPerWorker');
-  const maxExtraHoursPerWorker = watch('maxExtraHoursPerWorker');
-  const hourlyRate = watch('hourlyRate');
-  
-  // Calculate totals
-  const totalCurrentWeekHours = numberOfWorkers * currentWeekHoursPerWorker;
-  const totalTargetWeekHours = numberOfWorkers * targetWeekHoursPerWorker;
-  const currentWeeklyCost = totalCurrentWeekHours * hourlyRate;
-  const hourDifferencePerWorker = targetWeekHoursPerWorker - currentWeekHoursPerWorker;
-  const totalHourDifference = numberOfWorkers * hourDifferencePerWorker;
-  const maxTotalExtraHours = numberOfWorkers * maxExtraHoursPerWorker;
-
-  const calculateProposals = (data: CalculatorFormData) => {
-    setIsCalculating(true);
-    
-    // Calculate current metrics per worker and totals
-    const totalCurrentWeekHours = data.numberOfWorkers * data.currentWeekHoursPerWorker;
-    const totalTargetWeekHours = data.numberOfWorkers * data.targetWeekHoursPerWorker;
-    const currentWeeklyCost = totalCurrentWeekHours * data.hourlyRate;
-    const hourDifferencePerWorker = data.targetWeekHoursPerWorker - data.currentWeekHoursPerWorker;
-    const maxTotalExtraHours = data.numberOfWorkers * data.maxExtraHoursPerWorker;
-    
-    const newProposals: Proposal[] = [];
-
-    if (hourDifferencePerWorker > 0) {
-      // Case 1: Target hours GREATER than current hours - NO DEFICIT according to user request
-      newProposals.push({
-        option: 'No Deficit - Target Exceeds Current',
-        description: `Target hours (${data.targetWeekHoursPerWorker}) are greater than current hours (${data.currentWeekHoursPerWorker}) per worker. No coverage deficit exists.`,
-        totalWeeklyHours: totalCurrentWeekHours,
-        uncoveredHours: 0,
-        costImpact: 0,
-        costPercentageChange: 0,
-        efficiency: 'No deficit',
-        details: `Current workforce working ${data.currentWeekHoursPerWorker} hours per worker is sufficient. Target of ${data.targetWeekHoursPerWorker} hours per worker indicates potential for expansion rather than deficit coverage.`,
-      });
-
-    } else if (hourDifferencePerWorker < 0) {
-      // Case 2: Need to REDUCE hours per worker while maintaining total hours
-      const hoursReductionPerWorker = Math.abs(hourDifferencePerWorker);
-      const totalHoursToReplace = data.numberOfWorkers * hoursReductionPerWorker;
-      
-      // Option 1: Hire additional workers to maintain total hours
-      const additionalWorkersNeeded = Math.ceil(totalHoursToReplace / data.targetWeekHoursPerWorker);
-      const actualAdditionalHours = additionalWorkersNeeded * data.targetWeekHoursPerWorker;
-      const newWorkersCost = actualAdditionalHours * data.hourlyRate;
-      const excessHours = actualAdditionalHours - totalHoursToReplace;
-      
-      newProposals.push({
-        option: 'Hire Additional Workers',
-        description: `Hire ${additionalWorkersNeeded} additional worker${additionalWorkersNeeded > 1 ? 's' : ''} to maintain ${totalCurrentWeekHours} total hours while reducing individual hours to ${data.targetWeekHoursPerWorker}`,
-        totalWeeklyHours: totalCurrentWeekHours + excessHours,
-        uncoveredHours: 0,
-        costImpact: newWorkersCost,
-        costPercentageChange: (newWorkersCost / currentWeeklyCost) * 100,
-        efficiency: 'Fully covered',
-        details: `Need to replace ${totalHoursToReplace} hours. Hiring ${additionalWorkersNeeded} workers × ${data.targetWeekHoursPerWorker} hours = ${actualAdditionalHours} hours. Cost: $${newWorkersCost.toLocaleString()}`,
-      });
-
-      // Option 2: Distribute extra hours among some workers
-      if (data.maxExtraHoursPerWorker > 0) {
-        const workersWithExtraHours = Math.ceil(totalHoursToReplace / data.maxExtraHoursPerWorker);
-        const actualExtraHoursTotal = Math.min(totalHoursToReplace, workersWithExtraHours * data.maxExtraHoursPerWorker);
-        const remainingHoursNeeded = totalHoursToReplace - actualExtraHoursTotal;
-        
-        if (remainingHoursNeeded <= 0) {
-          // Can cover entirely with extra hours
-          const extraCost = actualExtraHoursTotal * data.hourlyRate * 1.5;
-          
-          newProposals.push({
-            option: 'Redistribute Hours with Overtime',
-            description: `Reduce ${data.numberOfWorkers} workers to ${data.targetWeekHoursPerWorker} hours, add overtime to ${workersWithExtraHours} workers`,
-            totalWeeklyHours: totalCurrentWeekHours,
-            uncoveredHours: 0,
-            costImpact: extraCost,
-            costPercentageChange: (extraCost / currentWeeklyCost) * 100,
-            efficiency: 'Fully covered',
-            details: `${workersWithExtraHours} workers work up to ${data.maxExtraHoursPerWorker} extra hours each (${actualExtraHoursTotal} total extra hours) × $${(data.hourlyRate * 1.5).toFixed(2)} = $${extraCost.toLocaleString()}`,
-          });
-        } else {
-          // Need combination of extra hours and new workers
-          const additionalWorkersForRemainder = Math.ceil(remainingHoursNeeded / data.targetWeekHoursPerWorker);
-          const extraCost = actualExtraHoursTotal * data.hourlyRate * 1.5;
-          const newWorkersCostForRemainder = additionalWorkersForRemainder * data.targetWeekHoursPerWorker * data.hourlyRate;
-          const totalCombinedCost = extraCost + newWorkersCostForRemainder;
-          
-          newProposals.push({
-            option: 'Hybrid: Overtime + Additional Workers',
-            description: `Reduce hours per worker to ${data.targetWeekHoursPerWorker}, add overtime to ${workersWithExtraHours} workers, hire ${additionalWorkersForRemainder} additional worker${additionalWorkersForRemainder > 1 ? 's' : ''}`,
-            totalWeeklyHours: totalCurrentWeekHours + (additionalWorkersForRemainder * data.targetWeekHoursPerWorker - remainingHoursNeeded),
-            uncoveredHours: 0,
-            costImpact: totalCombinedCost,
-            costPercentageChange: (totalCombinedCost / currentWeeklyCost) * 100,
-            efficiency: 'Fully covered',
-            details: `${actualExtraHoursTotal} overtime hours at $${(data.hourlyRate * 1.5).toFixed(2)} + ${additionalWorkersForRemainder} new workers. Total cost: $${totalCombinedCost.toLocaleString()}`,
-          });
-        }
-      }
-
-    } else {
-      // Case 3: Hours per worker are already at target
-      newProposals.push({
-        option: 'Current Capacity Matches Target',
-        description: 'Your current weekly hours per worker already match the target',
-        totalWeeklyHours: totalCurrentWeekHours,
-        uncoveredHours: 0,
-        costImpact: 0,
-        costPercentageChange: 0,
-        efficiency: 'Fully covered',
-        details: `Current: ${data.currentWeekHoursPerWorker} hours per worker = Target: ${data.targetWeekHoursPerWorker} hours per worker`,
-      });
+  // Figures are weekly; show them over the chosen pay period
+  const period = payPeriods[payPeriod];
+  const perPeriod = (value: number) => fromWeekly(value, payPeriod);
+
+  // Simulate the proposals in a Web Worker; a newer calculation cancels an older run
+  const simulate = (inputs: CalculatorInputs, results: Proposal[]) => {
+    simulationWorker.current?.terminate();
+    simulationWorker.current = null;
+    setSimulation(null);
+    setIsSimulating(false);
+    setSimulationError(null);
+    if (!inputs.uncertainty?.enabled || results.length === 0) {
+      return;
     }
 
-    // Sort proposals by cost impact
-    newProposals.sort((a, b) => a.costImpact - b.costImpact);
+    const worker = new Worker(new URL('../../lib/calculator/monte-carlo.worker.ts', import.meta.url));
+    worker.addEventListener('message', (event: MessageEvent<MonteCarloSummary[]>) => {
+      setSimulation({ proposals: results, summaries: event.data });
+      setIsSimulating(false);
+      worker.terminate();
+      simulationWorker.current = null;
+    });
+    // A worker that fails to load, throws or sends something unreadable stops the run
+    const fail = () => {
+      setSimulationError('The uncertainty simulation failed. Calculate again to retry.');
+      setIsSimulating(false);
+      worker.terminate();
+      simulationWorker.current = null;
+    };
+    worker.addEventListener('error', fail);
+    worker.addEventListener('messageerror', fail);
+    const request: MonteCarloRequest = { inputs, proposals: results };
+    worker.postMessage(request);
+    simulationWorker.current = worker;
+    setIsSimulating(true);
+  };
 
-    setProposals(newProposals);
+  const runCalculation = (data: CalculatorFormData) => {
+    setIsCalculating(true);
+    const inputs = toCalculatorInputs(data);
+    const results = calculateProposals(inputs);
+    setProposals(results);
+    simulate(inputs, results);
+    setLastInputs(inputs);
+    setRoster(null);
+    setDemand(
+      inputs.demandCurve?.enabled
+        ? { required: inputs.demandCurve.required, current: currentCoverage(inputs, inputs.demandCurve.required) }
+        : null
+    );
     setIsCalculating(false);
   };
 
-  const onSubmit = handleSubmit(calculateProposals);
+  const onSubmit = handleSubmit(runCalculation);
+
+  // Simulation results, once they match the proposals shown
+  const summaries = simulation?.proposals === proposals ? simulation.summaries : [];
+
+  // Draft a roster for the chosen proposal from the templates it was calculated with
+  const draftRoster = (proposal: Proposal) => {
+    if (!lastInputs?.shiftTemplates || !lastInputs.fatigueRules || !proposal.mix) {
+      return;
+    }
+    setRoster({
+      title: proposal.option,
+      rows: generateRoster(lastInputs, proposal.mix, lastInputs.shiftTemplates, lastInputs.fatigueRules),
+    });
+  };
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -180,129 +187,94 @@ export default function CalculatorPage() {
             Labor Hour Coverage Calculator
           </h1>
           <p className="text-xl text-gray-600 max-w-3xl mx-auto">
-            Analyze your workforce capacity and get proposals for optimizing labor coverage. Shows deficit coverage options or indicates when no deficit exists.
+            Analyze your workforce capacity and get proposals for optimizing labor coverage. Shows coverage options whether you are reducing hours per worker or need more hours than you staff.
           </p>
         </div>
 
+        {/* Pay Period */}
+        <div className="flex flex-wrap justify-end items-center gap-2 mb-4">
+          {payPeriod !== 'weekly' && (
+            <p className="text-xs text-gray-500">
+              Weekly figures times {Number(period.weeks.toFixed(4))} weeks per {period.unit}. Proposal breakdowns,
+              the week-by-week plan, the planned holiday week and simulated percentiles stay weekly, as percentiles
+              don&apos;t add up across weeks; the 12-month forecast is by month
+            </p>
+          )}
+          <label htmlFor="payPeriod" className="text-sm font-medium text-gray-700">
+            Show figures
+          </label>
+          <select
+            id="payPeriod"
+            value={payPeriod}
+            onChange={(event) => setPayPeriod(event.target.value as PayPeriod)}
+            className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {(Object.keys(payPeriods) as PayPeriod[]).map((option) => (
+              <option key={option} value={option}>
+                {payPeriods[option].label}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div className="grid lg:grid-cols-2 gap-8">
           {/* Input Form */}
           <div className="bg-white rounded-lg shadow-md p-6">
             <h2 className="text-2xl font-semibold text-gray-900 mb-6">Current Configuration</h2>
             
-            <form onSubmit={onSubmit} className="space-y-6">
-              {/* Number of Workers */}
-              <div>
-                <label htmlFor="numberOfWorkers" className="block text-sm font-medium text-gray-700 mb-2">
-                  Number of Workers
-                </label>
-                <input
-                  id="numberOfWorkers"
-                  type="number"
-                  step="1"
-                  min="1"
-                  {...register('numberOfWorkers', { valueAsNumber: true })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                />
-                {errors.numberOfWorkers && (
-                  <p className="mt-1 text-sm text-red-600">{errors.numberOfWorkers.message}</p>
-                )}
-                <p className="mt-1 text-xs text-gray-500">
-                  Total number of workers in your current workforce
-                </p>
-              </div>
+            <FormProvider {...form}>
+              <form onSubmit={onSubmit} className="space-y-6">
+                {/* Worker Groups */}
+                <WorkerGroupFields />
 
-              {/* Current Week Hours per Worker */}
-              <div>
-                <label htmlFor="currentWeekHoursPerWorker" className="block text-sm font-medium text-gray-700 mb-2">
-                  Current Week Hours per Worker
-                </label>
-                <input
-                  id="currentWeekHoursPerWorker"
-                  type="number"
-                  step="1"
-                  min="1"
-                  max="168"
-                  {...register('currentWeekHoursPerWorker', { valueAsNumber: true })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                />
-                {errors.currentWeekHoursPerWorker && (
-                  <p className="mt-1 text-sm text-red-600">{errors.currentWeekHoursPerWorker.message}</p>
-                )}
-                <p className="mt-1 text-xs text-gray-500">
-                  Hours each worker currently works per week
-                </p>
-              </div>
+                {/* Part-time Hiring */}
+                <PartTimeHiringFields />
 
-              {/* Target Week Hours per Worker */}
-              <div>
-                <label htmlFor="targetWeekHoursPerWorker" className="block text-sm font-medium text-gray-700 mb-2">
-                  Target Week Hours per Worker
-                </label>
-                <input
-                  id="targetWeekHoursPerWorker"
-                  type="number"
-                  step="1"
-                  min="1"
-                  max="168"
-                  {...register('targetWeekHoursPerWorker', { valueAsNumber: true })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                />
-                {errors.targetWeekHoursPerWorker && (
-                  <p className="mt-1 text-sm text-red-600">{errors.targetWeekHoursPerWorker.message}</p>
-                )}
-                <p className="mt-1 text-xs text-gray-500">
-                  Hours each worker needs to work per week to meet requirements
-                </p>
-              </div>
+                {/* Agency Staff */}
+                <AgencyStaffingFields />
 
-              {/* Max Extra Hours per Worker */}
-              <div>
-                <label htmlFor="maxExtraHoursPerWorker" className="block text-sm font-medium text-gray-700 mb-2">
-                  Max Extra Hours per Worker (per week)
-                </label>
-                <input
-                  id="maxExtraHoursPerWorker"
-                  type="number"
-                  step="1"
-                  min="0"
-                  {...register('maxExtraHoursPerWorker', { valueAsNumber: true })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                />
-                {errors.maxExtraHoursPerWorker && (
-                  <p className="mt-1 text-sm text-red-600">{errors.maxExtraHoursPerWorker.message}</p>
-                )}
-                <p className="mt-1 text-xs text-gray-500">
-                  Maximum additional overtime hours each worker can work per week
-                </p>
-              </div>
+                {/* Fully-loaded Cost */}
+                <LaborBurdenFields />
+                <WeeklyBudgetFields />
+                <UncoveredCostFields />
+                <AbsenceRatesFields />
+                <HolidayCalendarFields />
+                <UncertaintyFields />
+                <SeasonalDemandFields />
 
-              {/* Hourly Rate */}
-              <div>
-                <label htmlFor="hourlyRate" className="block text-sm font-medium text-gray-700 mb-2">
-                  Hourly Rate ($)
-                </label>
-                <input
-                  id="hourlyRate"
-                  type="number"
-                  step="0.01"
-                  min="0.01"
-                  {...register('hourlyRate', { valueAsNumber: true })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                />
-                {errors.hourlyRate && (
-                  <p className="mt-1 text-sm text-red-600">{errors.hourlyRate.message}</p>
-                )}
-              </div>
+                {/* Planning Horizon */}
+                <PlanningHorizonFields />
 
-              {/* Submit Button */}
-              <button
-                type="submit"
-                disabled={isCalculating}
-                className="w-full bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              >
-                {isCalculating ? 'Calculating...' : 'Calculate Proposals'}
-              </button>
-            </form>
+                {/* Hourly Demand */}
+                <DemandCurveFields />
+
+                {/* Shift Templates */}
+                <ShiftTemplateFields />
+
+                {/* Shift Differentials */}
+                <ShiftDifferentialFields />
+
+                {/* Overtime Rule */}
+                <OvertimeRuleFields />
+
+                {/* Fatigue Rules */}
+                <FatigueRulesFields />
+
+                {/* Jurisdiction */}
+                <LaborLawFields />
+
+                {/* Submit Button */}
+                <button
+                  type="submit"
+                  disabled={isCalculating}
+                  className="w-full bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isCalculating ? 'Calculating...' : 'Calculate Proposals'}
+                </button>
+              </form>
+
+              <GoalSeekPanel />
+            </FormProvider>
 
             {/* Current Metrics */}
             <div className="mt-6 p-4 bg-gray-50 rounded-lg">
@@ -310,54 +282,56 @@ export default function CalculatorPage() {
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
                   <span className="text-gray-600">Number of Workers:</span>
-                  <span className="ml-2 font-semibold">{numberOfWorkers || 0}</span>
-                </div>
-                <div>
-                  <span className="text-gray-600">Current Hours per Worker:</span>
-                  <span className="ml-2 font-semibold">{currentWeekHoursPerWorker || 0}</span>
+                  <span className="ml-2 font-semibold">{numberOfWorkers}</span>
                 </div>
                 <div>
-                  <span className="text-gray-600">Target Hours per Worker:</span>
-                  <span className="ml-2 font-semibold">{targetWeekHoursPerWorker || 0}</span>
-                </div>
-                <div>
-                  <span className="text-gray-600">Hour Difference per Worker:</span>
-                  <span className={`ml-2 font-semibold ${hourDifferencePerWorker > 0 ? 'text-red-600' : hourDifferencePerWorker < 0 ? 'text-blue-600' : 'text-green-600'}`}>
-                    {hourDifferencePerWorker > 0 ? `+${hourDifferencePerWorker}` : hourDifferencePerWorker || 0}
-                  </span>
-                  <span className="ml-1 text-xs text-gray-500">
-                    {hourDifferencePerWorker > 0 ? '(need more)' : hourDifferencePerWorker < 0 ? '(reducing)' : '(match)'}
-                  </span>
+                  <span className="text-gray-600">Worker Groups:</span>
+                  <span className="ml-2 font-semibold">{workerGroups?.length ?? 0}</span>
                 </div>
                 <div>
                   <span className="text-gray-600">Total Current Hours:</span>
-                  <span className="ml-2 font-semibold">{totalCurrentWeekHours || 0}</span>
+                  <span className="ml-2 font-semibold">{perPeriod(totalCurrentWeekHours)}</span>
                 </div>
                 <div>
                   <span className="text-gray-600">Total Target Hours:</span>
-                  <span className="ml-2 font-semibold">{totalTargetWeekHours || 0}</span>
+                  <span className="ml-2 font-semibold">{perPeriod(totalTargetWeekHours)}</span>
                 </div>
                 <div>
                   <span className="text-gray-600">Total Hour Difference:</span>
                   <span className={`ml-2 font-semibold ${totalHourDifference > 0 ? 'text-red-600' : totalHourDifference < 0 ? 'text-blue-600' : 'text-green-600'}`}>
-                    {totalHourDifference > 0 ? `+${totalHourDifference}` : totalHourDifference || 0}
+                    {totalHourDifference > 0 ? `+${perPeriod(totalHourDifference)}` : perPeriod(totalHourDifference)}
+                  </span>
+                  <span className="ml-1 text-xs text-gray-500">
+                    {totalHourDifference > 0 ? '(need more)' : totalHourDifference < 0 ? '(reducing)' : '(match)'}
                   </span>
                 </div>
                 <div>
-                  <span className="text-gray-600">Max Extra Hours per Worker:</span>
-                  <span className="ml-2 font-semibold">{maxExtraHoursPerWorker || 0}</span>
+                  <span className="text-gray-600">Total Extra Hours Available:</span>
+                  <span className="ml-2 font-semibold">{perPeriod(maxTotalExtraHours)}</span>
                 </div>
                 <div>
-                  <span className="text-gray-600">Total Extra Hours Available:</span>
-                  <span className="ml-2 font-semibold">{maxTotalExtraHours || 0}</span>
+                  <span className="text-gray-600">Absence &amp; Attrition Cover:</span>
+                  <span className="ml-2 font-semibold">{perPeriod(absenceHours)}</span>
                 </div>
+                {holidayCalendar?.enabled && (
+                  <div>
+                    <span className="text-gray-600">Holiday Hours / Premium (planned week):</span>
+                    <span className="ml-2 font-semibold">
+                      {holidayHours} / ${holidayPremiumCost.toLocaleString()}
+                    </span>
+                  </div>
+                )}
                 <div>
-                  <span className="text-gray-600">Current Weekly Cost:</span>
-                  <span className="ml-2 font-semibold">${(currentWeeklyCost || 0).toLocaleString()}</span>
+                  <span className="text-gray-600">Current {period.label} Cost:</span>
+                  <span className="ml-2 font-semibold">${perPeriod(currentWeeklyCost).toLocaleString()}</span>
                 </div>
                 <div>
-                  <span className="text-gray-600">Hourly Rate:</span>
-                  <span className="ml-2 font-semibold">${(hourlyRate || 0).toFixed(2)}</span>
+                  <span className="text-gray-600">Average Hourly Rate:</span>
+                  <span className="ml-2 font-semibold">${averageHourlyRate.toFixed(2)}</span>
+                </div>
+                <div className="col-span-2">
+                  <span className="text-gray-600">Overtime Rule:</span>
+                  <span className="ml-2 font-semibold">{overtimeRule ? describeOvertimeRule(overtimeRule) : '-'}</span>
                 </div>
               </div>
             </div>
@@ -369,20 +343,26 @@ export default function CalculatorPage() {
             
             {proposals.length === 0 ? (
               <div className="text-center py-8">
-                <p className="text-gray-500 text-lg">Enter your configuration and click "Calculate Proposals" to see coverage options.</p>
+                <p className="text-gray-500 text-lg">Enter your configuration and click &quot;Calculate Proposals&quot; to see coverage options.</p>
               </div>
             ) : (
               <div className="space-y-4">
+                {/* Current Coverage */}
+                {demand && (
+                  <div className="p-4 rounded-lg border border-gray-200">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-3">Current Coverage</h3>
+                    <CoverageHeatmap required={demand.required} coverage={demand.current} />
+                  </div>
+                )}
+
                 {proposals.map((proposal, index) => (
                   <div
-                    key={index}
+                    key={proposal.id}
                     className={`p-4 rounded-lg border-2 ${
                       proposal.efficiency === 'Fully covered'
                         ? 'border-green-200 bg-green-50'
                         : proposal.efficiency === 'Partially covered'
                         ? 'border-yellow-200 bg-yellow-50'
-                        : proposal.efficiency === 'No deficit'
-                        ? 'border-purple-200 bg-purple-50'
                         : 'border-blue-200 bg-blue-50'
                     }`}
                   >
@@ -394,8 +374,6 @@ export default function CalculatorPage() {
                             ? 'bg-green-100 text-green-800'
                             : proposal.efficiency === 'Partially covered'
                             ? 'bg-yellow-100 text-yellow-800'
-                            : proposal.efficiency === 'No deficit'
-                            ? 'bg-purple-100 text-purple-800'
                             : 'bg-blue-100 text-blue-800'
                         }`}
                       >
@@ -407,28 +385,61 @@ export default function CalculatorPage() {
                     
                     <div className="grid grid-cols-2 gap-3 text-sm mb-3">
                       <div>
-                        <span className="text-gray-600">Total Weekly Hours:</span>
-                        <span className="ml-2 font-semibold">{proposal.totalWeeklyHours}</span>
+                        <span className="text-gray-600">Total {period.label} Hours:</span>
+                        <span className="ml-2 font-semibold">{perPeriod(proposal.totalWeeklyHours)}</span>
                       </div>
                       <div>
                         <span className="text-gray-600">Remaining Uncovered:</span>
                         <span className={`ml-2 font-semibold ${proposal.uncoveredHours > 0 ? 'text-red-600' : 'text-green-600'}`}>
-                          {proposal.uncoveredHours}
+                          {perPeriod(proposal.uncoveredHours)}
                         </span>
                       </div>
+                      {proposal.idleHours !== undefined && (
+                        <div>
+                          <span className="text-gray-600">Paid but Idle:</span>
+                          <span className={`ml-2 font-semibold ${proposal.idleHours > 0 ? 'text-yellow-700' : 'text-green-600'}`}>
+                            {perPeriod(proposal.idleHours)}
+                          </span>
+                        </div>
+                      )}
                     </div>
 
                     {/* Details */}
                     <div className="mb-3 p-2 bg-gray-50 rounded text-sm text-gray-600">
+                      {payPeriod !== 'weekly' && <span className="font-medium text-gray-700">Per week: </span>}
                       {proposal.details}
                     </div>
+
+                    {/* Hourly Coverage */}
+                    {demand && proposal.coverage && (
+                      <details className="mb-3 text-sm">
+                        <summary className="cursor-pointer text-gray-700">
+                          Hourly coverage ({proposal.coverage.uncoveredSlotHours} uncovered slot-hours)
+                        </summary>
+                        <div className="mt-2">
+                          <CoverageHeatmap required={demand.required} coverage={proposal.coverage} />
+                        </div>
+                      </details>
+                    )}
+
+                    {/* Week-by-week Plan */}
+                    {proposal.schedule && <HorizonTable schedule={proposal.schedule} />}
+
+                    {/* Compliance Issues */}
+                    {proposal.complianceIssues && proposal.complianceIssues.length > 0 && (
+                      <ul className="mb-3 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700 list-disc list-inside">
+                        {proposal.complianceIssues.map((issue) => (
+                          <li key={issue}>{issue}</li>
+                        ))}
+                      </ul>
+                    )}
                     
-                    <div className="pt-3 border-t border-gray-200">
+                    <div className="pt-3 border-t border-gray-200 space-y-2">
                       <div className="flex justify-between items-center">
-                        <span className="text-gray-600">Additional Cost:</span>
+                        <span className="text-gray-600">Base Cost (wages):</span>
                         <div className="text-right">
                           <div className={`font-semibold ${proposal.costImpact === 0 ? 'text-green-600' : 'text-red-600'}`}>
-                            {proposal.costImpact === 0 ? 'No additional cost' : `$${proposal.costImpact.toLocaleString()}`}
+                            {proposal.costImpact === 0 ? 'No additional cost' : `$${perPeriod(proposal.costImpact).toLocaleString()}`}
                           </div>
                           {proposal.costImpact > 0 && (
                             <div className="text-sm text-red-600">
@@ -437,13 +448,88 @@ export default function CalculatorPage() {
                           )}
                         </div>
                       </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-600">Loaded Cost:</span>
+                        <div className={`font-semibold ${proposal.loadedCost === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {proposal.loadedCost === 0 ? 'No additional cost' : `$${perPeriod(proposal.loadedCost).toLocaleString()}`}
+                        </div>
+                      </div>
+                      {proposal.economicCost !== undefined && (
+                        <div className="flex justify-between items-center">
+                          <span className="text-gray-600">Economic Cost:</span>
+                          <div className="text-right">
+                            <div className={`font-semibold ${proposal.economicCost === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              ${perPeriod(proposal.economicCost).toLocaleString()}
+                            </div>
+                            {proposal.uncoveredCost ? (
+                              <div className="text-sm text-red-600">
+                                (incl. ${perPeriod(proposal.uncoveredCost).toLocaleString()} uncovered)
+                              </div>
+                            ) : null}
+                          </div>
+                        </div>
+                      )}
+                      {summaries[index] && (
+                        <>
+                          <div className="flex justify-between items-center">
+                            <span className="text-gray-600">Simulated Weekly Cost P50 / P90:</span>
+                            <div className="font-semibold text-gray-900">
+                              ${summaries[index].p50Cost.toLocaleString()} / ${summaries[index].p90Cost.toLocaleString()}
+                            </div>
+                          </div>
+                          <div className="flex justify-between items-center">
+                            <span className="text-gray-600">Weeks with Uncovered Hours:</span>
+                            <div className={`font-semibold ${summaries[index].uncoveredProbability > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                              {(summaries[index].uncoveredProbability * 100).toFixed(1)}%
+                              {summaries[index].averageUncoveredHours > 0 && (
+                                <span className="ml-1 text-xs font-normal text-gray-500">
+                                  (avg {summaries[index].averageUncoveredHours}h/week)
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        </>
+                      )}
+                      {isSimulating && <p className="text-xs text-gray-500">Simulating uncertainty...</p>}
+                      {simulationError && <p className="text-xs text-red-600">{simulationError}</p>}
                     </div>
+
+                    {proposal.mix && lastInputs?.shiftTemplates?.length ? (
+                      <button
+                        type="button"
+                        onClick={() => draftRoster(proposal)}
+                        className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-700"
+                      >
+                        Draft roster from this proposal
+                      </button>
+                    ) : null}
                   </div>
                 ))}
               </div>
             )}
           </div>
         </div>
+
+        {/* Sensitivity Analysis */}
+        {lastInputs && proposals.length > 0 && <SensitivityTornado inputs={lastInputs} payPeriod={payPeriod} />}
+
+        {/* Overtime vs Hiring Break-even */}
+        {lastInputs && <BreakEvenChart inputs={lastInputs} payPeriod={payPeriod} />}
+
+        {/* Seasonal Forecast */}
+        {lastInputs?.seasonalDemand?.enabled && <SeasonalForecastChart inputs={lastInputs} />}
+
+        {/* Draft Roster */}
+        {roster && lastInputs?.shiftTemplates && lastInputs.fatigueRules && (
+          <RosterGrid
+            title={roster.title}
+            rows={roster.rows}
+            templates={lastInputs.shiftTemplates}
+            rules={lastInputs.fatigueRules}
+            onChange={(rows) => setRoster({ ...roster, rows })}
+            onClose={() => setRoster(null)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,52 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+import type { CalculatorFormData } from '@/lib/calculator';
+
+type AbsenceField = 'absenceRatePercent' | 'monthlyAttritionPercent' | 'vacancyWeeks';
+
+const absenceFields: { name: AbsenceField; label: string; step: string; min: string; max: string }[] = [
+  { name: 'absenceRatePercent', label: 'Absence Rate incl. PTO (%)', step: '0.1', min: '0', max: '90' },
+  { name: 'monthlyAttritionPercent', label: 'Monthly Attrition (%)', step: '0.1', min: '0', max: '100' },
+  { name: 'vacancyWeeks', label: 'Weeks to Backfill a Leaver', step: '1', min: '0', max: '52' },
+];
+
+export default function AbsenceRatesFields() {
+  const {
+    register,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Absence &amp; Attrition</legend>
+
+      <div className="grid grid-cols-3 gap-3">
+        {absenceFields.map((field) => (
+          <div key={field.name}>
+            <label htmlFor={`absenceRates${field.name}`} className="block text-sm font-medium text-gray-700 mb-2">
+              {field.label}
+            </label>
+            <input
+              id={`absenceRates${field.name}`}
+              type="number"
+              step={field.step}
+              min={field.min}
+              max={field.max}
+              {...register(`absenceRates.${field.name}`, { valueAsNumber: true })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            {errors.absenceRates?.[field.name] && (
+              <p className="mt-1 text-sm text-red-600">{errors.absenceRates[field.name]?.message}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Sick days, PTO and open roles while leavers are replaced take people off the floor, so the hours to cover are
+        grossed up until the hours actually worked meet the target
+      </p>
+    </fieldset>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+import type { CalculatorFormData } from '@/lib/calculator';
+
+type AgencyField = 'markupPercent' | 'minBookingHours' | 'maxWeeklyHours';
+
+const agencyFields: { name: AgencyField; label: string; step: string; min: string; max?: string }[] = [
+  { name: 'markupPercent', label: 'Agency Markup (%)', step: '1', min: '0', max: '300' },
+  { name: 'minBookingHours', label: 'Booking Block (hours)', step: '0.5', min: '1', max: '40' },
+  { name: 'maxWeeklyHours', label: 'Available Hours/Week', step: '1', min: '0' },
+];
+
+export default function AgencyStaffingFields() {
+  const {
+    register,
+    watch,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+  const enabled = watch('agencyStaffing.enabled');
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Agency Staff</legend>
+
+      <div className="flex items-center gap-2">
+        <input
+          id="agencyStaffingEnabled"
+          type="checkbox"
+          {...register('agencyStaffing.enabled')}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <label htmlFor="agencyStaffingEnabled" className="text-sm text-gray-700">
+          Also propose covering hours with temp agency or contractor staff
+        </label>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {agencyFields.map((field) => (
+          <div key={field.name}>
+            <label htmlFor={`agencyStaffing${field.name}`} className="block text-sm font-medium text-gray-700 mb-2">
+              {field.label}
+            </label>
+            <input
+              id={`agencyStaffing${field.name}`}
+              type="number"
+              step={field.step}
+              min={field.min}
+              max={field.max}
+              readOnly={!enabled}
+              {...register(`agencyStaffing.${field.name}`, { valueAsNumber: true })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
+            />
+            {errors.agencyStaffing?.[field.name] && (
+              <p className="mt-1 text-sm text-red-600">{errors.agencyStaffing[field.name]?.message}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Agency hours are billed at the cheapest role&apos;s rate plus markup, in whole booking blocks
+      </p>
+    </fieldset>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  breakEvenAnalysis,
+  breakEvenSeries,
+  calculateMetrics,
+  fromWeekly,
+  payPeriods,
+  type BreakEvenPoint,
+  type BreakEvenSeries,
+  type CalculatorInputs,
+  type PayPeriod,
+} from '@/lib/calculator';
+
+const WIDTH = 640;
+const HEIGHT = 280;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 64 };
+
+const seriesColors: Record<BreakEvenSeries, string> = {
+  overtime: '#f97316',
+  hire: '#2563eb',
+  hybrid: '#16a34a',
+};
+
+function formatCost(cost: number): string {
+  return `$${cost.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+// Twice the current deficit, rounded up to 10 hours, so the crossovers
+// either side of it show
+function defaultSweep(inputs: CalculatorInputs): number {
+  return Math.max(40, Math.ceil((calculateMetrics(inputs).totalHoursToCover * 2) / 10) * 10);
+}
+
+// One line per stretch of points where the strategy covers the deficit
+function seriesPaths(points: BreakEvenPoint[], key: BreakEvenSeries, x: (hours: number) => number, y: (cost: number) => number) {
+  const paths: string[] = [];
+  let current: string[] = [];
+  for (const point of points) {
+    const cost = point.costs[key];
+    if (cost === null) {
+      if (current.length > 0) {
+        paths.push(current.join(' '));
+      }
+      current = [];
+      continue;
+    }
+    current.push(`${x(point.deficitHours).toFixed(1)},${y(cost).toFixed(1)}`);
+  }
+  if (current.length > 0) {
+    paths.push(current.join(' '));
+  }
+  return paths;
+}
+
+export default function BreakEvenChart({ inputs, payPeriod }: { inputs: CalculatorInputs; payPeriod: PayPeriod }) {
+  const [sweep, setSweep] = useState<{ inputs: CalculatorInputs; hours: number } | null>(null);
+  // Start from the default again after a new calculation
+  const maxHours = sweep?.inputs === inputs ? sweep.hours : defaultSweep(inputs);
+
+  const isValid = Number.isFinite(maxHours) && maxHours >= 1 && maxHours <= 100000;
+  const currentDeficit = calculateMetrics(inputs).totalHoursToCover;
+  const analysis = useMemo(() => (isValid ? breakEvenAnalysis(inputs, maxHours) : null), [inputs, maxHours, isValid]);
+
+  const series = Object.keys(breakEvenSeries) as BreakEvenSeries[];
+  const unit = payPeriods[payPeriod].unit;
+  // Deficits stay in hours a week; costs are shown over the pay period
+  const perPeriod = (cost: number) => fromWeekly(cost, payPeriod);
+  const maxCost = Math.max(
+    1,
+    ...(analysis?.points ?? []).flatMap((point) => series.map((key) => perPeriod(point.costs[key] ?? 0)))
+  );
+  const x = (hours: number) => PADDING.left + (hours / maxHours) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (cost: number) => HEIGHT - PADDING.bottom - (cost / maxCost) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  return (
+    <div className="mt-8 bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap justify-between items-end gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900">Overtime vs Hiring Break-even</h2>
+          <p className="text-gray-600">Loaded cost per {unit} of covering a growing weekly deficit</p>
+        </div>
+        <div>
+          <label htmlFor="breakEvenHours" className="block text-sm font-medium text-gray-700 mb-2">
+            Sweep Deficit to (hours/week)
+          </label>
+          <input
+            id="breakEvenHours"
+            type="number"
+            step="1"
+            min="1"
+            max="100000"
+            value={Number.isFinite(maxHours) ? maxHours : ''}
+            onChange={(event) => setSweep({ inputs, hours: event.target.valueAsNumber })}
+            className="w-32 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      {!isValid && <p className="text-sm text-red-600">Sweep to between 1 and 100,000 hours</p>}
+
+      {analysis && (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Break-even chart">
+            <line x1={PADDING.left} y1={y(0)} x2={WIDTH - PADDING.right} y2={y(0)} stroke="#9ca3af" />
+            <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={y(0)} stroke="#9ca3af" />
+            {[0, 0.5, 1].map((share) => (
+              <g key={share} className="text-[10px] fill-gray-500">
+                <text x={PADDING.left - 6} y={y(maxCost * share) + 3} textAnchor="end">
+                  {formatCost(maxCost * share)}
+                </text>
+                <text x={x(Math.round(maxHours * share))} y={HEIGHT - PADDING.bottom + 14} textAnchor="middle">
+                  {Math.round(maxHours * share)}h
+                </text>
+              </g>
+            ))}
+
+            {currentDeficit > 0 && currentDeficit <= maxHours && (
+              <g>
+                <line
+                  x1={x(currentDeficit)}
+                  y1={PADDING.top}
+                  x2={x(currentDeficit)}
+                  y2={y(0)}
+                  stroke="#6b7280"
+                  strokeDasharray="4 3"
+                />
+                <text x={x(currentDeficit) + 4} y={PADDING.top + 10} className="text-[10px] fill-gray-600">
+                  Now: {currentDeficit}h
+                </text>
+              </g>
+            )}
+
+            {series.map((key) =>
+              seriesPaths(analysis.points, key, x, (cost) => y(perPeriod(cost))).map((path, index) => (
+                <polyline key={`${key}-${index}`} points={path} fill="none" stroke={seriesColors[key]} strokeWidth={2} />
+              ))
+            )}
+
+            {analysis.crossovers.map((crossover) => (
+              <g key={`${crossover.cheaper}-${crossover.costlier}-${crossover.deficitHours}`}>
+                <circle
+                  cx={x(crossover.deficitHours)}
+                  cy={y(perPeriod(crossover.cost))}
+                  r={4}
+                  fill="white"
+                  stroke="#111827"
+                  strokeWidth={1.5}
+                />
+                <text
+                  x={x(crossover.deficitHours)}
+                  y={y(perPeriod(crossover.cost)) - 8}
+                  textAnchor="middle"
+                  className="text-[10px] fill-gray-900 font-medium"
+                >
+                  {crossover.deficitHours}h
+                </text>
+              </g>
+            ))}
+          </svg>
+
+          <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-700">
+            {series.map((key) => (
+              <span key={key} className="flex items-center gap-1">
+                <span className="inline-block w-4 h-0.5" style={{ backgroundColor: seriesColors[key] }} />
+                {breakEvenSeries[key].label}
+              </span>
+            ))}
+          </div>
+
+          {analysis.crossovers.length > 0 ? (
+            <ul className="mt-4 space-y-1 text-sm text-gray-700">
+              {analysis.crossovers.map((crossover) => (
+                <li key={`${crossover.cheaper}-${crossover.costlier}-${crossover.deficitHours}`}>
+                  From <strong>{crossover.deficitHours}h</strong> short, {breakEvenSeries[crossover.cheaper].label} (
+                  {formatCost(perPeriod(crossover.cost))}/{unit}) is cheaper than {breakEvenSeries[crossover.costlier].label}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-4 text-sm text-gray-500">No crossovers: the cheapest option doesn&apos;t change in this range.</p>
+          )}
+        </>
+      )}
+
+      <p className="mt-4 text-xs text-gray-500">
+        Each point re-runs the overtime, hire and hybrid proposals for that many hours short. Lines stop where a
+        proposal no longer covers the deficit: overtime past its caps, hybrid while overtime alone is enough
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { DAYS, type CoverageSummary, type WeeklyGrid } from '@/lib/calculator';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Red when short of demand (darker the bigger the gap), green when met,
+// grey when nobody is needed or staffed
+function cellClass(required: number, staffed: number): string {
+  if (required === 0) {
+    return staffed > 0 ? 'bg-blue-100' : 'bg-gray-100';
+  }
+
+  const coverage = staffed / required;
+  if (coverage >= 1) return 'bg-green-400';
+  if (coverage >= 0.75) return 'bg-red-200';
+  if (coverage >= 0.5) return 'bg-red-400';
+  return 'bg-red-600';
+}
+
+export default function CoverageHeatmap({ required, coverage }: { required: WeeklyGrid; coverage: CoverageSummary }) {
+  return (
+    <div className="text-xs">
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-0.5">
+          <thead>
+            <tr>
+              <th />
+              {HOURS.map((hour) => (
+                <th key={hour} className="w-4 font-normal text-gray-500">
+                  {hour % 6 === 0 ? hour : ''}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {DAYS.map((day, dayIndex) => (
+              <tr key={day}>
+                <th className="pr-2 text-left font-medium text-gray-700">{day}</th>
+                {HOURS.map((hour) => {
+                  const need = required[dayIndex]?.[hour] ?? 0;
+                  const staffed = coverage.staffed[dayIndex]?.[hour] ?? 0;
+                  return (
+                    <td
+                      key={hour}
+                      title={`${day} ${hour}:00 - ${staffed} staffed of ${need} required`}
+                      className={`w-4 h-4 rounded-sm ${cellClass(need, staffed)}`}
+                    />
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-1 text-gray-600">
+        Uncovered slot-hours: <span className="font-semibold">{coverage.uncoveredSlotHours}</span>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+import { DAYS, type CalculatorFormData } from '@/lib/calculator';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export default function DemandCurveFields() {
+  const {
+    register,
+    watch,
+    getValues,
+    setValue,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+  const enabled = watch('demandCurve.enabled');
+
+  // Copy one day's requirements onto other days
+  const copyDay = (from: number, to: number[]) => {
+    const hours = getValues(`demandCurve.required.${from}`);
+    to.forEach((day) => setValue(`demandCurve.required.${day}`, [...hours], { shouldDirty: true }));
+  };
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Hourly Demand</legend>
+
+      <div className="flex items-center gap-2">
+        <input
+          id="demandCurveEnabled"
+          type="checkbox"
+          {...register('demandCurve.enabled')}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <label htmlFor="demandCurveEnabled" className="text-sm text-gray-700">
+          Judge proposals by the headcount required in each hour of the week
+        </label>
+      </div>
+
+      {enabled && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="text-xs">
+              <thead>
+                <tr>
+                  <th />
+                  {HOURS.map((hour) => (
+                    <th key={hour} className="px-0.5 font-normal text-gray-500">
+                      {hour}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {DAYS.map((day, dayIndex) => (
+                  <tr key={day}>
+                    <th className="pr-2 text-left font-medium text-gray-700">{day}</th>
+                    {HOURS.map((hour) => (
+                      <td key={hour} className="p-0.5">
+                        <input
+                          aria-label={`${day} ${hour}:00 required headcount`}
+                          type="number"
+                          step="1"
+                          min="0"
+                          {...register(`demandCurve.required.${dayIndex}.${hour}`, { valueAsNumber: true })}
+                          className="w-10 px-1 py-0.5 border border-gray-300 rounded text-center focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {errors.demandCurve?.required && (
+            <p className="text-sm text-red-600">Required headcount must be between 0 and 10,000 in every hour</p>
+          )}
+
+          <div className="flex gap-4">
+            <button
+              type="button"
+              onClick={() => copyDay(0, [1, 2, 3, 4])}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              Copy Monday to weekdays
+            </button>
+            <button
+              type="button"
+              onClick={() => copyDay(5, [6])}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              Copy Saturday to Sunday
+            </button>
+          </div>
+        </>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Shifts are placed where they cover the most unmet demand and may run past midnight
+      </p>
+    </fieldset>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+import type { CalculatorFormData } from '@/lib/calculator';
+
+type FatigueField = 'minRestHours' | 'maxConsecutiveDays' | 'maxDailyHours';
+
+const fatigueFields: { name: FatigueField; label: string; step: string; min: string; max: string }[] = [
+  { name: 'minRestHours', label: 'Minimum Rest Between Shifts (hours)', step: '0.5', min: '0', max: '23' },
+  { name: 'maxConsecutiveDays', label: 'Max Consecutive Days', step: '1', min: '1', max: '7' },
+  { name: 'maxDailyHours', label: 'Max Hours per Day', step: '0.5', min: '1', max: '24' },
+];
+
+export default function FatigueRulesFields() {
+  const {
+    register,
+    watch,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+
+  // The overtime rule's working week sets how many days in a row people work
+  const daysPerWeek = watch('overtimeRule.daysPerWeek');
+  const maxConsecutiveDays = watch('fatigueRules.maxConsecutiveDays');
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Fatigue Rules</legend>
+
+      <div className="grid grid-cols-3 gap-3">
+        {fatigueFields.map((field) => (
+          <div key={field.name}>
+            <label htmlFor={`fatigueRules${field.name}`} className="block text-sm font-medium text-gray-700 mb-2">
+              {field.label}
+            </label>
+            <input
+              id={`fatigueRules${field.name}`}
+              type="number"
+              step={field.step}
+              min={field.min}
+              max={field.max}
+              {...register(`fatigueRules.${field.name}`, { valueAsNumber: true })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            {errors.fatigueRules?.[field.name] && (
+              <p className="mt-1 text-sm text-red-600">{errors.fatigueRules[field.name]?.message}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {daysPerWeek > maxConsecutiveDays && (
+        <p className="p-2 bg-yellow-50 border border-yellow-200 rounded text-sm text-yellow-800">
+          The overtime rule works {daysPerWeek} days a week, more than the {maxConsecutiveDays} consecutive days allowed
+          here, so no one can take overtime. Raise the limit or use fewer days in the overtime rule.
+        </p>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Overtime is capped so no one breaks these rules, with hires or agency staff covering the rest; rosters follow them too
+      </p>
+    </fieldset>
+  );
+}
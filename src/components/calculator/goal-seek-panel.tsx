@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import { useFormContext } from 'react-hook-form';
+import {
+  calculatorSchema,
+  goalSeek,
+  goalSeekMetrics,
+  goalSeekVariables,
+  strategyOptions,
+  type CalculatorFormData,
+  type GoalSeekComparison,
+  type GoalSeekMetric,
+  type GoalSeekResult,
+} from '@/lib/calculator';
+
+const comparisons: { value: GoalSeekComparison; label: string }[] = [
+  { value: 'atMost', label: 'at most' },
+  { value: 'atLeast', label: 'at least' },
+  { value: 'equals', label: 'equal to' },
+];
+
+export default function GoalSeekPanel() {
+  const { getValues, watch } = useFormContext<CalculatorFormData>();
+  const [path, setPath] = useState('workerGroups.0.hourlyRate');
+  const [strategy, setStrategy] = useState('hybrid');
+  const [metric, setMetric] = useState<GoalSeekMetric>('loadedCost');
+  const [comparison, setComparison] = useState<GoalSeekComparison>('atMost');
+  const [target, setTarget] = useState(5000);
+  const [result, setResult] = useState<GoalSeekResult | null>(null);
+
+  const variables = goalSeekVariables({ ...getValues(), workerGroups: watch('workerGroups') ?? [] });
+
+  const solve = () => {
+    const parsed = calculatorSchema.safeParse(getValues());
+    const variable = variables.find((candidate) => candidate.path === path);
+    if (!parsed.success) {
+      setResult({ feasible: false, message: 'Fix the errors in the form before solving' });
+    } else if (!variable || !Number.isFinite(target)) {
+      setResult({ feasible: false, message: 'Choose an unknown and enter a target' });
+    } else {
+      setResult(goalSeek(parsed.data, variable, { strategy, metric, comparison, value: target }));
+    }
+  };
+
+  return (
+    <div className="mt-6 p-4 bg-gray-50 rounded-lg space-y-3">
+      <h3 className="text-lg font-medium text-gray-900">Goal Seek</h3>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="col-span-2">
+          <label htmlFor="goalSeekVariable" className="block text-sm font-medium text-gray-700 mb-2">
+            Solve For
+          </label>
+          <select
+            id="goalSeekVariable"
+            value={path}
+            onChange={(event) => setPath(event.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {variables.map((variable) => (
+              <option key={variable.path} value={variable.path}>
+                {variable.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="goalSeekStrategy" className="block text-sm font-medium text-gray-700 mb-2">
+            Proposal
+          </label>
+          <select
+            id="goalSeekStrategy"
+            value={strategy}
+            onChange={(event) => setStrategy(event.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {strategyOptions.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="goalSeekMetric" className="block text-sm font-medium text-gray-700 mb-2">
+            Metric
+          </label>
+          <select
+            id="goalSeekMetric"
+            value={metric}
+            onChange={(event) => setMetric(event.target.value as GoalSeekMetric)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {(Object.keys(goalSeekMetrics) as GoalSeekMetric[]).map((key) => (
+              <option key={key} value={key}>
+                {goalSeekMetrics[key].label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="goalSeekComparison" className="block text-sm font-medium text-gray-700 mb-2">
+            Must Be
+          </label>
+          <select
+            id="goalSeekComparison"
+            value={comparison}
+            onChange={(event) => setComparison(event.target.value as GoalSeekComparison)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {comparisons.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="goalSeekTarget" className="block text-sm font-medium text-gray-700 mb-2">
+            Target
+          </label>
+          <input
+            id="goalSeekTarget"
+            type="number"
+            step="0.01"
+            value={Number.isFinite(target) ? target : ''}
+            onChange={(event) => setTarget(event.target.valueAsNumber)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={solve}
+        className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700"
+      >
+        Solve
+      </button>
+
+      {result && (
+        <p
+          className={`p-2 rounded text-sm ${
+            result.feasible
+              ? 'bg-green-50 border border-green-200 text-green-800'
+              : 'bg-yellow-50 border border-yellow-200 text-yellow-800'
+          }`}
+        >
+          {result.message}
+        </p>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Re-runs the calculator across the unknown&apos;s valid range with everything else as entered, e.g. the highest
+        hourly rate that keeps a proposal under a cost
+      </p>
+    </div>
+  );
+}
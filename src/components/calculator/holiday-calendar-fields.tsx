@@ -0,0 +1,203 @@
+'use client';
+
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import { addDays, calendarLastYear, holidaySets, holidayWeek, isIsoDate, type CalculatorFormData } from '@/lib/calculator';
+
+type HolidayField = 'premiumMultiplier' | 'takenOffPercent';
+
+const holidayFields: { name: HolidayField; label: string; step: string; min: string; max: string }[] = [
+  { name: 'premiumMultiplier', label: 'Holiday Pay Multiplier', step: '0.05', min: '1', max: '5' },
+  { name: 'takenOffPercent', label: 'Team Hours Taken Off (%)', step: '1', min: '0', max: '100' },
+];
+
+export default function HolidayCalendarFields() {
+  const {
+    register,
+    control,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+  const { fields, append, remove, replace } = useFieldArray({ control, name: 'holidayCalendar.customHolidays' });
+  const calendar = watch('holidayCalendar');
+  const enabled = calendar?.enabled;
+
+  // Holidays on the planned week's workdays, with the form as entered
+  const plannedWeek = holidayWeek({ workerGroups: [], holidayCalendar: calendar, overtimeRule: watch('overtimeRule') });
+
+  // Weeks past the calendar's last listed year are planned without holidays
+  const horizon = watch('planningHorizon');
+  const lastYear = calendar ? calendarLastYear(calendar) : null;
+  const planEnd =
+    calendar && isIsoDate(calendar.weekStart)
+      ? addDays(calendar.weekStart, (horizon?.enabled ? horizon.weeks : 1) * 7 - 1)
+      : null;
+  const pastCalendar = lastYear !== null && planEnd !== null && Number(planEnd.slice(0, 4)) > lastYear;
+
+  // Start a custom calendar from the selected country's
+  const copyToCustom = () => {
+    if (calendar.calendar === 'custom') {
+      return;
+    }
+    replace(holidaySets[calendar.calendar].holidays.map((holiday) => ({ ...holiday })));
+    setValue('holidayCalendar.calendar', 'custom');
+  };
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Public Holidays</legend>
+
+      <div className="flex items-center gap-2">
+        <input
+          id="holidayCalendarEnabled"
+          type="checkbox"
+          {...register('holidayCalendar.enabled')}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <label htmlFor="holidayCalendarEnabled" className="text-sm text-gray-700">
+          Plan around public holidays
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="holidayCalendarCalendar" className="block text-sm font-medium text-gray-700 mb-2">
+            Calendar
+          </label>
+          <select
+            id="holidayCalendarCalendar"
+            {...register('holidayCalendar.calendar')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {Object.values(holidaySets).map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+            <option value="custom">Custom</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="holidayCalendarWeekStart" className="block text-sm font-medium text-gray-700 mb-2">
+            Planned Week Starts
+          </label>
+          <input
+            id="holidayCalendarWeekStart"
+            type="date"
+            readOnly={!enabled}
+            {...register('holidayCalendar.weekStart')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
+          />
+          {errors.holidayCalendar?.weekStart && (
+            <p className="mt-1 text-sm text-red-600">{errors.holidayCalendar.weekStart.message}</p>
+          )}
+        </div>
+        {holidayFields.map((field) => (
+          <div key={field.name}>
+            <label htmlFor={`holidayCalendar${field.name}`} className="block text-sm font-medium text-gray-700 mb-2">
+              {field.label}
+            </label>
+            <input
+              id={`holidayCalendar${field.name}`}
+              type="number"
+              step={field.step}
+              min={field.min}
+              max={field.max}
+              readOnly={!enabled}
+              {...register(`holidayCalendar.${field.name}`, { valueAsNumber: true })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
+            />
+            {errors.holidayCalendar?.[field.name] && (
+              <p className="mt-1 text-sm text-red-600">{errors.holidayCalendar[field.name]?.message}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {calendar?.calendar === 'custom' ? (
+        <div className="space-y-2">
+          {fields.map((field, index) => {
+            const holidayErrors = errors.holidayCalendar?.customHolidays?.[index];
+
+            return (
+              <div key={field.id} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <input
+                    aria-label="Holiday date"
+                    type="date"
+                    {...register(`holidayCalendar.customHolidays.${index}.date`)}
+                    className="w-40 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <input
+                    aria-label="Holiday name"
+                    type="text"
+                    {...register(`holidayCalendar.customHolidays.${index}.name`)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => remove(index)}
+                    className="px-3 py-1 text-sm text-gray-600 hover:text-red-600"
+                  >
+                    Remove
+                  </button>
+                </div>
+                {holidayErrors &&
+                  (['date', 'name'] as const).map((name) =>
+                    holidayErrors[name] ? (
+                      <p key={name} className="text-sm text-red-600">
+                        {holidayErrors[name]?.message}
+                      </p>
+                    ) : null
+                  )}
+              </div>
+            );
+          })}
+
+          {errors.holidayCalendar?.customHolidays?.message && (
+            <p className="mt-1 text-sm text-red-600">{errors.holidayCalendar.customHolidays.message}</p>
+          )}
+
+          <button
+            type="button"
+            onClick={() => append({ date: calendar.weekStart, name: 'Holiday' })}
+            disabled={fields.length >= 100}
+            className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            + Add holiday
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={copyToCustom}
+          className="text-sm font-medium text-blue-600 hover:text-blue-700"
+        >
+          Copy to a custom calendar to edit
+        </button>
+      )}
+
+      {enabled && (
+        <p className="text-sm text-gray-700">
+          {plannedWeek.holidays.length > 0
+            ? `Holidays on workdays of the planned week: ${plannedWeek.holidays
+                .map((holiday) => `${holiday.name} (${holiday.date})`)
+                .join(', ')}`
+            : 'No holidays fall on workdays of the planned week'}
+        </p>
+      )}
+
+      {enabled && pastCalendar && (
+        <p className="p-2 bg-yellow-50 border border-yellow-200 rounded text-sm text-yellow-800">
+          The plan runs to {planEnd}, but this calendar only lists holidays up to {lastYear}. Weeks after that are
+          planned without holidays.
+        </p>
+      )}
+
+      <p className="text-xs text-gray-500">
+        On a holiday every scheduled hour is paid at the holiday multiplier, and the share taken off is added to the
+        hours to cover. Horizon plans check each week against the calendar. Built-in calendars cover 2025-2028
+      </p>
+    </fieldset>
+  );
+}
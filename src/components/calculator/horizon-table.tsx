@@ -0,0 +1,46 @@
+import type { HorizonWeek } from '@/lib/calculator';
+
+export default function HorizonTable({ schedule }: { schedule: HorizonWeek[] }) {
+  const total = schedule[schedule.length - 1]?.cumulativeCost ?? 0;
+
+  return (
+    <details className="mb-3 text-sm">
+      <summary className="cursor-pointer text-gray-700">
+        Week-by-week plan ({schedule.length} weeks, ${total.toLocaleString()} total)
+      </summary>
+      <div className="mt-2 overflow-x-auto">
+        <table className="w-full text-right">
+          <thead className="text-gray-600">
+            <tr>
+              <th className="py-1 text-left">Week</th>
+              <th className="py-1">Overtime</th>
+              <th className="py-1">New Hires</th>
+              <th className="py-1">Agency</th>
+              <th className="py-1">Uncovered</th>
+              <th className="py-1">Cost</th>
+              <th className="py-1">Cumulative</th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.map((week) => (
+              <tr key={week.week} className="border-t border-gray-200">
+                <td className="py-1 text-left">
+                  {week.week}
+                  {week.holidays.length > 0 && (
+                    <span className="ml-1 text-xs text-amber-700">({week.holidays.join(', ')})</span>
+                  )}
+                </td>
+                <td className="py-1">{week.overtimeHours}</td>
+                <td className="py-1">{week.newHireHours}</td>
+                <td className="py-1">{week.agencyHours}</td>
+                <td className={`py-1 ${week.uncoveredHours > 0 ? 'text-red-600' : ''}`}>{week.uncoveredHours}</td>
+                <td className="py-1">${week.cost.toLocaleString()}</td>
+                <td className="py-1">${week.cumulativeCost.toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+}
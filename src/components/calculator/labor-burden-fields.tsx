@@ -0,0 +1,68 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+import { payPeriods, type CalculatorFormData, type PayPeriod } from '@/lib/calculator';
+
+type BurdenField = 'employerTaxPercent' | 'benefitsPerHead' | 'hiringCostPerHead' | 'amortizationWeeks';
+
+// Fields with a period can be given per pay period
+const burdenFields: { name: BurdenField; label: string; step: string; min: string; max?: string; period?: 'benefitsPeriod' }[] = [
+  { name: 'employerTaxPercent', label: 'Employer Payroll Tax (%)', step: '0.1', min: '0', max: '100' },
+  { name: 'benefitsPerHead', label: 'Benefits per New Hire ($)', step: '0.01', min: '0', period: 'benefitsPeriod' },
+  { name: 'hiringCostPerHead', label: 'Recruiting + Onboarding per Hire ($)', step: '1', min: '0' },
+  { name: 'amortizationWeeks', label: 'Amortize Hiring Over (weeks)', step: '1', min: '1', max: '520' },
+];
+
+export default function LaborBurdenFields() {
+  const {
+    register,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Fully-loaded Cost</legend>
+
+      <div className="grid grid-cols-2 gap-3">
+        {burdenFields.map((field) => (
+          <div key={field.name}>
+            <label htmlFor={`laborBurden${field.name}`} className="block text-sm font-medium text-gray-700 mb-2">
+              {field.label}
+            </label>
+            <div className="flex gap-2">
+              <input
+                id={`laborBurden${field.name}`}
+                type="number"
+                step={field.step}
+                min={field.min}
+                max={field.max}
+                {...register(`laborBurden.${field.name}`, { valueAsNumber: true })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              {field.period && (
+                <select
+                  aria-label={`${field.label} per`}
+                  {...register(`laborBurden.${field.period}`)}
+                  className="px-2 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {(Object.keys(payPeriods) as PayPeriod[]).map((period) => (
+                    <option key={period} value={period}>
+                      per {payPeriods[period].unit}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            {errors.laborBurden?.[field.name] && (
+              <p className="mt-1 text-sm text-red-600">{errors.laborBurden[field.name]?.message}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Payroll tax applies to all added wages; benefits and hiring costs only to new hires. Proposals are ranked by loaded cost. Benefits given per pay period are converted to weekly
+      </p>
+    </fieldset>
+  );
+}
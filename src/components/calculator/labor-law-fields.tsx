@@ -0,0 +1,52 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+import { getLaborLawPack, laborLawPacks, type CalculatorFormData } from '@/lib/calculator';
+
+export default function LaborLawFields() {
+  const { register, watch } = useFormContext<CalculatorFormData>();
+  const pack = getLaborLawPack(watch('laborLawPack'));
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Jurisdiction</legend>
+
+      <div className="grid grid-cols-2 gap-3">
+        {/* Labor Law Pack */}
+        <div>
+          <label htmlFor="laborLawPack" className="block text-sm font-medium text-gray-700 mb-2">
+            Labor Law Rules
+          </label>
+          <select
+            id="laborLawPack"
+            {...register('laborLawPack')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {Object.values(laborLawPacks).map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Compliance Mode */}
+        <div>
+          <label htmlFor="complianceMode" className="block text-sm font-medium text-gray-700 mb-2">
+            When a Proposal Breaks the Law
+          </label>
+          <select
+            id="complianceMode"
+            {...register('complianceMode')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="flag">Flag it</option>
+            <option value="reject">Reject it</option>
+          </select>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">{pack.description}</p>
+    </fieldset>
+  );
+}
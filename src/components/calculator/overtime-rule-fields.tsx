@@ -0,0 +1,173 @@
+'use client';
+
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import { overtimeRulePresets, type CalculatorFormData } from '@/lib/calculator';
+
+export default function OvertimeRuleFields() {
+  const {
+    register,
+    control,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+  const { fields, append, remove } = useFieldArray({ control, name: 'overtimeRule.tiers' });
+
+  const trigger = watch('overtimeRule.trigger');
+  const ruleErrors = errors.overtimeRule;
+
+  const applyPreset = (presetKey: string) => {
+    const preset = overtimeRulePresets[presetKey];
+    if (preset) {
+      setValue('overtimeRule', preset.rule, { shouldValidate: true });
+    }
+  };
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Overtime Rule</legend>
+
+      {/* Preset */}
+      <div>
+        <label htmlFor="overtimePreset" className="block text-sm font-medium text-gray-700 mb-2">
+          Start From Preset
+        </label>
+        <select
+          id="overtimePreset"
+          defaultValue=""
+          onChange={(event) => applyPreset(event.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="" disabled>
+            Choose a preset...
+          </option>
+          {Object.entries(overtimeRulePresets).map(([key, preset]) => (
+            <option key={key} value={key}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {/* Trigger */}
+        <div>
+          <label htmlFor="overtimeTrigger" className="block text-sm font-medium text-gray-700 mb-2">
+            Trigger
+          </label>
+          <select
+            id="overtimeTrigger"
+            {...register('overtimeRule.trigger')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="scheduled">Beyond scheduled</option>
+            <option value="daily">Daily hours</option>
+            <option value="weekly">Weekly hours</option>
+          </select>
+        </div>
+
+        {/* Days per Week */}
+        <div>
+          <label htmlFor="overtimeDaysPerWeek" className="block text-sm font-medium text-gray-700 mb-2">
+            Days per Week
+          </label>
+          <input
+            id="overtimeDaysPerWeek"
+            type="number"
+            step="1"
+            min="1"
+            max="7"
+            {...register('overtimeRule.daysPerWeek', { valueAsNumber: true })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          {ruleErrors?.daysPerWeek && (
+            <p className="mt-1 text-sm text-red-600">{ruleErrors.daysPerWeek.message}</p>
+          )}
+        </div>
+
+        {/* Sunday Multiplier */}
+        <div>
+          <label htmlFor="overtimeSundayMultiplier" className="block text-sm font-medium text-gray-700 mb-2">
+            Sunday ×
+          </label>
+          <input
+            id="overtimeSundayMultiplier"
+            type="number"
+            step="0.05"
+            min="1"
+            {...register('overtimeRule.sundayMultiplier', { valueAsNumber: true })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          {ruleErrors?.sundayMultiplier && (
+            <p className="mt-1 text-sm text-red-600">{ruleErrors.sundayMultiplier.message}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Tiers */}
+      <div className="space-y-2">
+        {fields.map((field, index) => (
+          <div key={field.id} className="flex items-end gap-3">
+            <div className="flex-1">
+              <label htmlFor={`overtimeTierThreshold${index}`} className="block text-xs text-gray-600 mb-1">
+                {trigger === 'scheduled' ? 'Hours past scheduled' : trigger === 'daily' ? 'After hours/day' : 'After hours/week'}
+              </label>
+              <input
+                id={`overtimeTierThreshold${index}`}
+                type="number"
+                step="0.5"
+                min="0"
+                {...register(`overtimeRule.tiers.${index}.threshold`, { valueAsNumber: true })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor={`overtimeTierMultiplier${index}`} className="block text-xs text-gray-600 mb-1">
+                Pay multiplier
+              </label>
+              <input
+                id={`overtimeTierMultiplier${index}`}
+                type="number"
+                step="0.05"
+                min="1"
+                {...register(`overtimeRule.tiers.${index}.multiplier`, { valueAsNumber: true })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => remove(index)}
+              disabled={fields.length <= 1}
+              className="px-3 py-2 text-sm text-gray-600 hover:text-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        {ruleErrors?.tiers?.message && (
+          <p className="mt-1 text-sm text-red-600">{ruleErrors.tiers.message}</p>
+        )}
+        {Array.isArray(ruleErrors?.tiers) &&
+          ruleErrors.tiers.map((tierError, index) =>
+            tierError ? (
+              <p key={index} className="mt-1 text-sm text-red-600">
+                Tier {index + 1}: {tierError.threshold?.message ?? tierError.multiplier?.message}
+              </p>
+            ) : null
+          )}
+        <button
+          type="button"
+          onClick={() => append({ threshold: 12, multiplier: 2 })}
+          disabled={fields.length >= 4}
+          className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          + Add tier
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Extra hours are priced with these tiers; Sunday premium applies when the week spans 7 days
+      </p>
+    </fieldset>
+  );
+}
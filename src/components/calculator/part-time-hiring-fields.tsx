@@ -0,0 +1,53 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+import type { CalculatorFormData } from '@/lib/calculator';
+
+export default function PartTimeHiringFields() {
+  const {
+    register,
+    watch,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+  const enabled = watch('partTimeHiring.enabled');
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Part-time Hiring</legend>
+
+      <div className="flex items-center gap-2">
+        <input
+          id="partTimeHiringEnabled"
+          type="checkbox"
+          {...register('partTimeHiring.enabled')}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <label htmlFor="partTimeHiringEnabled" className="text-sm text-gray-700">
+          Also propose full-time + part-time hire mixes
+        </label>
+      </div>
+
+      <div>
+        <label htmlFor="partTimeMinShiftHours" className="block text-sm font-medium text-gray-700 mb-2">
+          Minimum Part-time Shift (hours)
+        </label>
+        <input
+          id="partTimeMinShiftHours"
+          type="number"
+          step="0.5"
+          min="1"
+          max="24"
+          readOnly={!enabled}
+          {...register('partTimeHiring.minShiftHours', { valueAsNumber: true })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
+        />
+        {errors.partTimeHiring?.minShiftHours && (
+          <p className="mt-1 text-sm text-red-600">{errors.partTimeHiring.minShiftHours.message}</p>
+        )}
+        <p className="mt-1 text-xs text-gray-500">
+          A part-timer covering a few leftover hours is still paid for at least this long
+        </p>
+      </div>
+    </fieldset>
+  );
+}
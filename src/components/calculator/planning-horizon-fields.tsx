@@ -0,0 +1,67 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+import type { CalculatorFormData } from '@/lib/calculator';
+
+type HorizonField = 'weeks' | 'hiringLeadWeeks' | 'rampWeeks' | 'startingProductivityPercent';
+
+const horizonFields: { name: HorizonField; label: string; step: string; min: string; max: string }[] = [
+  { name: 'weeks', label: 'Horizon (weeks)', step: '1', min: '4', max: '52' },
+  { name: 'hiringLeadWeeks', label: 'Hiring Lead Time (weeks)', step: '1', min: '0', max: '52' },
+  { name: 'rampWeeks', label: 'Ramp-up (weeks)', step: '1', min: '0', max: '52' },
+  { name: 'startingProductivityPercent', label: 'Productivity in First Week (%)', step: '5', min: '0', max: '100' },
+];
+
+export default function PlanningHorizonFields() {
+  const {
+    register,
+    watch,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+  const enabled = watch('planningHorizon.enabled');
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Planning Horizon</legend>
+
+      <div className="flex items-center gap-2">
+        <input
+          id="planningHorizonEnabled"
+          type="checkbox"
+          {...register('planningHorizon.enabled')}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <label htmlFor="planningHorizonEnabled" className="text-sm text-gray-700">
+          Plan week by week, with overtime bridging until new hires are up to speed
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {horizonFields.map((field) => (
+          <div key={field.name}>
+            <label htmlFor={`planningHorizon${field.name}`} className="block text-sm font-medium text-gray-700 mb-2">
+              {field.label}
+            </label>
+            <input
+              id={`planningHorizon${field.name}`}
+              type="number"
+              step={field.step}
+              min={field.min}
+              max={field.max}
+              readOnly={!enabled}
+              {...register(`planningHorizon.${field.name}`, { valueAsNumber: true })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
+            />
+            {errors.planningHorizon?.[field.name] && (
+              <p className="mt-1 text-sm text-red-600">{errors.planningHorizon[field.name]?.message}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        New hires are paid from their start week and ramp linearly to full productivity
+      </p>
+    </fieldset>
+  );
+}
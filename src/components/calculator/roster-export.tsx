@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  isValidTimeZone,
+  nextMonday,
+  teamCalendar,
+  workerCalendar,
+  type IcsExportOptions,
+  type RosterRow,
+  type ShiftTemplate,
+} from '@/lib/calculator';
+
+// Save a calendar file in the browser; nothing leaves the machine
+function downloadIcs(filename: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/calendar;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'roster';
+}
+
+export default function RosterExport({ rows, templates }: { rows: RosterRow[]; templates: ShiftTemplate[] }) {
+  const [weekStart, setWeekStart] = useState(() => nextMonday());
+  const [weeks, setWeeks] = useState(1);
+  const [timeZone, setTimeZone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+  const isMonday = /^\d{4}-\d{2}-\d{2}$/.test(weekStart) && new Date(`${weekStart}T12:00:00Z`).getUTCDay() === 1;
+  const error = !isMonday
+    ? 'The first week must start on a Monday'
+    : !isValidTimeZone(timeZone)
+    ? 'Unknown timezone; use an IANA name like Europe/Berlin'
+    : !Number.isInteger(weeks) || weeks < 1 || weeks > 12
+    ? 'Export between 1 and 12 weeks'
+    : null;
+  const options: IcsExportOptions = { weekStart, weeks, timeZone };
+  const rostered = rows.filter((row) => row.shifts.some((shift) => shift !== null));
+
+  return (
+    <div className="mt-6 p-4 bg-gray-50 rounded-lg space-y-3">
+      <h3 className="text-lg font-medium text-gray-900">Calendar Export</h3>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="rosterExportWeekStart" className="block text-sm font-medium text-gray-700 mb-2">
+            First Week (Monday)
+          </label>
+          <input
+            id="rosterExportWeekStart"
+            type="date"
+            value={weekStart}
+            onChange={(event) => setWeekStart(event.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="rosterExportWeeks" className="block text-sm font-medium text-gray-700 mb-2">
+            Weeks
+          </label>
+          <input
+            id="rosterExportWeeks"
+            type="number"
+            step="1"
+            min="1"
+            max="12"
+            value={weeks}
+            onChange={(event) => setWeeks(event.target.valueAsNumber)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="rosterExportTimeZone" className="block text-sm font-medium text-gray-700 mb-2">
+            Timezone
+          </label>
+          <input
+            id="rosterExportTimeZone"
+            type="text"
+            value={timeZone}
+            onChange={(event) => setTimeZone(event.target.value.trim())}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          disabled={error !== null}
+          onClick={() => downloadIcs(`team-roster-${weekStart}.ics`, teamCalendar(rows, templates, options))}
+          className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Download team feed
+        </button>
+        {rostered.map((row) => (
+          <button
+            key={row.worker.id}
+            type="button"
+            disabled={error !== null}
+            onClick={() =>
+              downloadIcs(`${slug(row.worker.name)}-${weekStart}.ics`, workerCalendar(row, templates, options))
+            }
+            className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {row.worker.name}.ics
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Shift times are read in this timezone and written in UTC, so DST changes land correctly. Shifts past a worker&apos;s
+        contract hours are marked as overtime
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import {
+  DAYS,
+  checkRoster,
+  shiftPaidHours,
+  type RosterRow,
+  type FatigueRules,
+  type ShiftTemplate,
+} from '@/lib/calculator';
+import RosterExport from '@/components/calculator/roster-export';
+
+interface RosterGridProps {
+  title: string;
+  rows: RosterRow[];
+  templates: ShiftTemplate[];
+  rules: FatigueRules;
+  onChange: (rows: RosterRow[]) => void;
+  onClose: () => void;
+}
+
+const kindLabels: Record<RosterRow['worker']['kind'], string> = {
+  existing: '',
+  'new-hire': 'New hire',
+  agency: 'Agency',
+};
+
+export default function RosterGrid({ title, rows, templates, rules, onChange, onClose }: RosterGridProps) {
+  const check = checkRoster(rows, templates, rules);
+
+  const setShift = (rowIndex: number, day: number, value: string) => {
+    onChange(
+      rows.map((row, index) =>
+        index === rowIndex
+          ? { ...row, shifts: row.shifts.map((template, d) => (d === day ? (value === '' ? null : Number(value)) : template)) }
+          : row
+      )
+    );
+  };
+
+  return (
+    <div className="mt-8 bg-white rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900">Draft Roster</h2>
+          <p className="text-gray-600">{title}</p>
+        </div>
+        <button type="button" onClick={onClose} className="text-sm text-gray-600 hover:text-gray-900">
+          Close
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-gray-600">
+            <tr>
+              <th className="py-2 text-left">Worker</th>
+              {DAYS.map((day) => (
+                <th key={day} className="py-2 px-1">
+                  {day}
+                </th>
+              ))}
+              <th className="py-2 text-right">Hours</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, rowIndex) => {
+              const hours = check.hoursByWorker[row.worker.id] ?? 0;
+              return (
+                <tr key={row.worker.id} className="border-t border-gray-200">
+                  <td className="py-1 pr-2">
+                    <span className="font-medium text-gray-900">{row.worker.name}</span>
+                    {kindLabels[row.worker.kind] && (
+                      <span className="ml-2 text-xs text-blue-700">
+                        {kindLabels[row.worker.kind]} ({row.worker.role})
+                      </span>
+                    )}
+                  </td>
+                  {DAYS.map((day, dayIndex) => (
+                    <td key={day} className="py-1 px-1">
+                      <select
+                        aria-label={`${row.worker.name} ${day}`}
+                        value={row.shifts[dayIndex] ?? ''}
+                        onChange={(event) => setShift(rowIndex, dayIndex, event.target.value)}
+                        className="w-full px-1 py-1 border border-gray-300 rounded focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="">Off</option>
+                        {templates.map((template, templateIndex) => (
+                          <option key={templateIndex} value={templateIndex}>
+                            {template.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  ))}
+                  <td className={`py-1 text-right font-semibold ${hours > row.worker.maxHours ? 'text-red-600' : ''}`}>
+                    {hours} / {row.worker.maxHours}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Shift Legend */}
+      <p className="mt-3 text-xs text-gray-500">
+        {templates
+          .map((template) => `${template.name}: ${template.start}-${template.end}, ${shiftPaidHours(template)}h paid`)
+          .join(' · ')}
+      </p>
+
+      {check.unfilled.length > 0 && (
+        <ul className="mt-3 p-2 bg-yellow-50 border border-yellow-200 rounded text-sm text-yellow-800 list-disc list-inside">
+          {check.unfilled.map((slot) => (
+            <li key={`${slot.day}-${slot.template}`}>
+              {DAYS[slot.day]} {templates[slot.template]?.name}: {slot.missing} short
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {check.issues.length > 0 && (
+        <ul className="mt-3 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700 list-disc list-inside">
+          {check.issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+
+      <RosterExport rows={rows} templates={templates} />
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+import { MONTHS, WEEKS_PER_YEAR, monthOfWeek, type CalculatorFormData } from '@/lib/calculator';
+
+export default function SeasonalDemandFields() {
+  const {
+    register,
+    watch,
+    getValues,
+    setValue,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+  const enabled = watch('seasonalDemand.enabled');
+  const granularity = watch('seasonalDemand.granularity');
+
+  // Start a weekly profile from the monthly one
+  const fillWeeksFromMonths = () => {
+    const monthly = getValues('seasonalDemand.monthlyMultipliers');
+    setValue(
+      'seasonalDemand.weeklyMultipliers',
+      Array.from({ length: WEEKS_PER_YEAR }, (_, week) => monthly[monthOfWeek(week)] ?? 1),
+      { shouldValidate: true }
+    );
+  };
+
+  const multiplierErrors =
+    granularity === 'weekly' ? errors.seasonalDemand?.weeklyMultipliers : errors.seasonalDemand?.monthlyMultipliers;
+  const firstError = Array.isArray(multiplierErrors)
+    ? multiplierErrors.find((error) => error?.message)?.message
+    : multiplierErrors?.message;
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Seasonal Demand</legend>
+
+      <div className="flex items-center gap-2">
+        <input
+          id="seasonalDemandEnabled"
+          type="checkbox"
+          {...register('seasonalDemand.enabled')}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <label htmlFor="seasonalDemandEnabled" className="text-sm text-gray-700">
+          Forecast a year of cover with seasonal demand
+        </label>
+      </div>
+
+      <div>
+        <label htmlFor="seasonalDemandGranularity" className="block text-sm font-medium text-gray-700 mb-2">
+          Multipliers By
+        </label>
+        <select
+          id="seasonalDemandGranularity"
+          {...register('seasonalDemand.granularity')}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="monthly">Month</option>
+          <option value="weekly">Week of the year</option>
+        </select>
+      </div>
+
+      {granularity === 'weekly' ? (
+        <div className="space-y-2">
+          <div className="grid grid-cols-4 sm:grid-cols-8 gap-2">
+            {Array.from({ length: WEEKS_PER_YEAR }, (_, week) => (
+              <div key={week}>
+                <label htmlFor={`seasonalDemandWeek${week}`} className="block text-xs text-gray-600 mb-1">
+                  W{week + 1}
+                </label>
+                <input
+                  id={`seasonalDemandWeek${week}`}
+                  type="number"
+                  step="0.05"
+                  min="0"
+                  max="10"
+                  readOnly={!enabled}
+                  {...register(`seasonalDemand.weeklyMultipliers.${week}`, { valueAsNumber: true })}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
+                />
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={fillWeeksFromMonths}
+            disabled={!enabled}
+            className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Fill weeks from the monthly multipliers
+          </button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+          {MONTHS.map((month, index) => (
+            <div key={month}>
+              <label htmlFor={`seasonalDemandMonth${index}`} className="block text-xs text-gray-600 mb-1">
+                {month}
+              </label>
+              <input
+                id={`seasonalDemandMonth${index}`}
+                type="number"
+                step="0.05"
+                min="0"
+                max="10"
+                readOnly={!enabled}
+                {...register(`seasonalDemand.monthlyMultipliers.${index}`, { valueAsNumber: true })}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {firstError && <p className="mt-1 text-sm text-red-600">{firstError}</p>}
+
+      <p className="text-xs text-gray-500">
+        Each multiplier scales the hours that must be worked: 1.2 is a peak with 20% more work, 0.9 a slow spell. The
+        weekly plan above is unaffected; the forecast appears with the results
+      </p>
+    </fieldset>
+  );
+}
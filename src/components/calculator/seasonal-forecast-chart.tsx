@@ -0,0 +1,127 @@
+'use client';
+
+import { useMemo } from 'react';
+import { MONTHS, seasonalForecast, type CalculatorInputs, type ForecastCost } from '@/lib/calculator';
+
+const palette = ['bg-orange-400', 'bg-blue-500', 'bg-green-500', 'bg-purple-500', 'bg-pink-500', 'bg-teal-500', 'bg-yellow-500'];
+
+function formatCost(cost: number): string {
+  return `$${cost.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+// e.g. "8 weeks as a related strategy, 2 weeks left out"
+function weeksNote(cost: ForecastCost): string {
+  const plural = (weeks: number) => `${weeks} week${weeks === 1 ? '' : 's'}`;
+  return [
+    ...(cost.fallbackWeeks > 0 ? [`${plural(cost.fallbackWeeks)} as a related strategy`] : []),
+    ...(cost.missingWeeks > 0 ? [`${plural(cost.missingWeeks)} left out`] : []),
+  ].join(', ');
+}
+
+// e.g. "Mar-Oct", or "Dec" for a single month
+function monthRange(months: number[]): string {
+  const first = MONTHS[months[0]];
+  const last = MONTHS[months[months.length - 1]];
+  return months.length > 1 ? `${first}-${last}` : first;
+}
+
+export default function SeasonalForecastChart({ inputs }: { inputs: CalculatorInputs }) {
+  const forecast = useMemo(() => seasonalForecast(inputs), [inputs]);
+
+  const colors = Object.fromEntries(forecast.strategies.map((option, index) => [option.id, palette[index % palette.length]]));
+  const labels = Object.fromEntries(forecast.strategies.map((option) => [option.id, option.label]));
+  const maxCost = Math.max(
+    1,
+    ...forecast.months.flatMap((month) => Object.values(month.costs).map((cost) => cost?.cost ?? 0))
+  );
+
+  return (
+    <div className="mt-8 bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-semibold text-gray-900">12-Month Forecast</h2>
+      <p className="text-gray-600 mb-4">Monthly loaded cost of each strategy at seasonal demand, and which wins when</p>
+
+      {/* Winner by season */}
+      <div className="flex mb-4 rounded overflow-hidden text-xs">
+        {forecast.seasons.map((season) => (
+          <div
+            key={season.months[0]}
+            className={`py-1 px-2 text-center truncate ${season.winner ? `${colors[season.winner]} text-white` : 'bg-gray-100 text-gray-600'}`}
+            style={{ flexGrow: season.months.length, flexBasis: 0 }}
+            title={`${monthRange(season.months)}: ${season.winner ? labels[season.winner] : 'no cover needed'}`}
+          >
+            {monthRange(season.months)}: {season.winner ? labels[season.winner] : 'No cover needed'}
+          </div>
+        ))}
+      </div>
+
+      {/* Monthly cost by strategy */}
+      <div className="grid grid-cols-12 gap-1 items-end h-48 border-b border-gray-300">
+        {forecast.months.map((month) => (
+          <div key={month.month} className="flex items-end justify-center gap-px h-full">
+            {forecast.strategies.map((option) => {
+              const cost = month.costs[option.id];
+              return (
+                <div
+                  key={option.id}
+                  className={`w-full max-w-2 ${cost ? colors[option.id] : ''} ${month.winner === option.id ? 'ring-2 ring-gray-900' : ''}`}
+                  style={{ height: `${cost ? (cost.cost / maxCost) * 100 : 0}%` }}
+                  title={`${month.label} ${option.label}: ${cost ? formatCost(cost.cost) : 'n/a'}${
+                    cost && cost.uncoveredHours > 0 ? `, ${cost.uncoveredHours}h uncovered` : ''
+                  }${cost && weeksNote(cost) ? ` (${weeksNote(cost)})` : ''}`}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-12 gap-1 mt-1 text-center text-xs text-gray-600">
+        {forecast.months.map((month) => (
+          <span key={month.month}>{month.label}</span>
+        ))}
+      </div>
+
+      <div className="mt-6 overflow-x-auto">
+        <table className="w-full text-sm text-right">
+          <thead className="text-gray-600">
+            <tr>
+              <th className="py-1 text-left">Strategy</th>
+              <th className="py-1">Year Cost</th>
+              <th className="py-1">Uncovered Hours</th>
+              <th className="py-1">Months Won</th>
+            </tr>
+          </thead>
+          <tbody>
+            {forecast.strategies.map((option) => {
+              const total = forecast.totals[option.id];
+              const won = forecast.months.filter((month) => month.winner === option.id).length;
+              return (
+                <tr key={option.id} className="border-t border-gray-200">
+                  <td className="py-1 text-left">
+                    <span className={`inline-block w-3 h-3 mr-2 align-middle rounded-sm ${colors[option.id]}`} />
+                    {option.label}
+                  </td>
+                  <td className="py-1">
+                    {total ? formatCost(total.cost) : 'n/a'}
+                    {total && weeksNote(total) && <div className="text-xs text-gray-500">{weeksNote(total)}</div>}
+                  </td>
+                  <td className={`py-1 ${total && total.uncoveredHours > 0 ? 'text-red-600' : ''}`}>
+                    {total ? total.uncoveredHours : 'n/a'}
+                  </td>
+                  <td className="py-1">{won}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-4 text-xs text-gray-500">
+        Each week of a 52-week year is priced at its own demand, as if the strategy were picked for that week, and the
+        weeks are totalled by month. A week a strategy doesn&apos;t apply to is priced as the related strategy that
+        does, such as full-time hires alone for a part-time mix or overtime alone for a hybrid, or left out if none
+        applies. The winner leaves out the fewest
+        weeks, covers the most hours, then costs least. Weekly budgets and holidays are left out
+      </p>
+    </div>
+  );
+}
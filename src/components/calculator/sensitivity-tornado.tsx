@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  fromWeekly,
+  payPeriods,
+  sensitivityAnalysis,
+  type CalculatorInputs,
+  type PayPeriod,
+  type ProposalSensitivity,
+  type SensitivityBar,
+} from '@/lib/calculator';
+
+function formatCost(cost: number): string {
+  return `$${cost.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+// One bar of the tornado: the lowered input's cost in blue and the raised
+// input's in orange, each drawn from the base cost at the center
+function TornadoRow({
+  bar,
+  baseCost,
+  scale,
+  payPeriod,
+}: {
+  bar: SensitivityBar;
+  baseCost: number;
+  scale: number;
+  payPeriod: PayPeriod;
+}) {
+  const segment = (cost: number | null, color: string) => {
+    if (cost === null || cost === baseCost || scale === 0) {
+      return null;
+    }
+
+    const width = (Math.abs(cost - baseCost) / scale) * 50;
+    const position = cost < baseCost ? { right: '50%' } : { left: '50%' };
+    return <div className={`absolute inset-y-0 ${color}`} style={{ ...position, width: `${width}%` }} />;
+  };
+  // Draw the longer segment first so a shorter one on the same side stays visible
+  const segments = [
+    { cost: bar.low, color: 'bg-blue-400' },
+    { cost: bar.high, color: 'bg-orange-400' },
+  ].sort((a, b) => Math.abs((b.cost ?? baseCost) - baseCost) - Math.abs((a.cost ?? baseCost) - baseCost));
+
+  return (
+    <div className="grid grid-cols-[8rem_4.5rem_1fr_4.5rem] items-center gap-2 text-xs">
+      <span className="text-gray-700">{bar.label}</span>
+      <span className="text-right text-gray-600">{bar.low === null ? 'n/a' : formatCost(fromWeekly(bar.low, payPeriod))}</span>
+      <div className="relative h-4 bg-gray-100 rounded-sm">
+        {segments.map((item) => (
+          <div key={item.color}>{segment(item.cost, item.color)}</div>
+        ))}
+        <div className="absolute inset-y-0 left-1/2 w-px bg-gray-700" />
+      </div>
+      <span className="text-gray-600">{bar.high === null ? 'n/a' : formatCost(fromWeekly(bar.high, payPeriod))}</span>
+    </div>
+  );
+}
+
+export default function SensitivityTornado({ inputs, payPeriod }: { inputs: CalculatorInputs; payPeriod: PayPeriod }) {
+  const [percent, setPercent] = useState(10);
+  const [analysis, setAnalysis] = useState<{ inputs: CalculatorInputs; results: ProposalSensitivity[] } | null>(null);
+  // Drop results from an earlier calculation
+  const results = analysis?.inputs === inputs ? analysis.results : null;
+
+  const isValid = Number.isFinite(percent) && percent > 0 && percent < 100;
+
+  return (
+    <div className="mt-8 bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap justify-between items-end gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900">Sensitivity Analysis</h2>
+          <p className="text-gray-600">
+            Which inputs move each proposal&apos;s base cost per {payPeriods[payPeriod].unit} the most
+          </p>
+        </div>
+        <div className="flex items-end gap-3">
+          <div>
+            <label htmlFor="sensitivityPercent" className="block text-sm font-medium text-gray-700 mb-2">
+              Vary Inputs by ±%
+            </label>
+            <input
+              id="sensitivityPercent"
+              type="number"
+              step="1"
+              min="1"
+              max="99"
+              value={Number.isFinite(percent) ? percent : ''}
+              onChange={(event) => setPercent(event.target.valueAsNumber)}
+              className="w-28 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <button
+            type="button"
+            disabled={!isValid}
+            onClick={() => setAnalysis({ inputs, results: sensitivityAnalysis(inputs, percent) })}
+            className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Run
+          </button>
+        </div>
+      </div>
+
+      {!isValid && <p className="text-sm text-red-600">Vary inputs by between 1% and 99%</p>}
+
+      {results && results.length === 0 && (
+        <p className="text-gray-500">No proposal adds cost, so there is nothing to vary.</p>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {results?.map((result) => {
+          const scale = Math.max(
+            ...result.bars.flatMap((bar) =>
+              [bar.low, bar.high].map((cost) => (cost === null ? 0 : Math.abs(cost - result.baseCost)))
+            )
+          );
+
+          return (
+            <div key={result.id} className="space-y-1">
+              <h3 className="font-semibold text-gray-900">{result.option}</h3>
+              <p className="text-xs text-gray-500 mb-2">Base cost {formatCost(fromWeekly(result.baseCost, payPeriod))}</p>
+              {result.bars.map((bar) => (
+                <TornadoRow key={bar.driver} bar={bar} baseCost={result.baseCost} scale={scale} payPeriod={payPeriod} />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="mt-4 text-xs text-gray-500">
+        Each input is scaled in every worker group (the multiplier in every overtime tier) while the rest stay as
+        calculated. Blue: input lowered; orange: input raised; n/a where the proposal no longer applies
+      </p>
+    </div>
+  );
+}
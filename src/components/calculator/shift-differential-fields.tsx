@@ -0,0 +1,146 @@
+'use client';
+
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import { DAYS, type CalculatorFormData } from '@/lib/calculator';
+
+export default function ShiftDifferentialFields() {
+  const {
+    register,
+    control,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+  const { fields, append, remove } = useFieldArray({ control, name: 'shiftDifferentials' });
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Shift Differentials</legend>
+
+      {fields.map((field, index) => {
+        const differentialErrors = errors.shiftDifferentials?.[index];
+
+        return (
+          <div key={field.id} className="border border-gray-200 rounded-md p-3 space-y-3">
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              <div>
+                <label htmlFor={`shiftDifferentialName${index}`} className="block text-xs text-gray-600 mb-1">
+                  Name
+                </label>
+                <input
+                  id={`shiftDifferentialName${index}`}
+                  type="text"
+                  {...register(`shiftDifferentials.${index}.name`)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor={`shiftDifferentialStart${index}`} className="block text-xs text-gray-600 mb-1">
+                  From
+                </label>
+                <input
+                  id={`shiftDifferentialStart${index}`}
+                  type="time"
+                  {...register(`shiftDifferentials.${index}.start`)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor={`shiftDifferentialEnd${index}`} className="block text-xs text-gray-600 mb-1">
+                  Until
+                </label>
+                <input
+                  id={`shiftDifferentialEnd${index}`}
+                  type="time"
+                  {...register(`shiftDifferentials.${index}.end`)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor={`shiftDifferentialKind${index}`} className="block text-xs text-gray-600 mb-1">
+                  Paid As
+                </label>
+                <select
+                  id={`shiftDifferentialKind${index}`}
+                  {...register(`shiftDifferentials.${index}.kind`)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="flat">$ per hour</option>
+                  <option value="percent">% of base rate</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor={`shiftDifferentialAmount${index}`} className="block text-xs text-gray-600 mb-1">
+                  Amount
+                </label>
+                <input
+                  id={`shiftDifferentialAmount${index}`}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  {...register(`shiftDifferentials.${index}.amount`, { valueAsNumber: true })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              {DAYS.map((day, dayIndex) => (
+                <label key={day} className="flex items-center gap-1 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    {...register(`shiftDifferentials.${index}.days.${dayIndex}`)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  {day}
+                </label>
+              ))}
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                className="ml-auto px-3 py-1 text-sm text-gray-600 hover:text-red-600"
+              >
+                Remove
+              </button>
+            </div>
+
+            {differentialErrors &&
+              (['name', 'start', 'end', 'amount'] as const).map((name) =>
+                differentialErrors[name] ? (
+                  <p key={name} className="text-sm text-red-600">
+                    {differentialErrors[name]?.message}
+                  </p>
+                ) : null
+              )}
+          </div>
+        );
+      })}
+
+      {errors.shiftDifferentials?.message && (
+        <p className="mt-1 text-sm text-red-600">{errors.shiftDifferentials.message}</p>
+      )}
+
+      <button
+        type="button"
+        onClick={() =>
+          append({
+            name: `Differential ${fields.length + 1}`,
+            start: '18:00',
+            end: '22:00',
+            kind: 'flat',
+            amount: 1,
+            days: [true, true, true, true, true, false, false],
+          })
+        }
+        disabled={fields.length >= 12}
+        className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        + Add differential
+      </button>
+
+      <p className="text-xs text-gray-500">
+        Priced where the covered hours fall: hour by hour where demand outruns current staffing, otherwise across the
+        shift templates. Each window is priced at its own rate: overlapping differentials add up, overtime and holiday
+        premiums multiply the rate including them, and an end at or before the start runs past midnight
+      </p>
+    </fieldset>
+  );
+}
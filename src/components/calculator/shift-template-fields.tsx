@@ -0,0 +1,144 @@
+'use client';
+
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import { DAYS, type CalculatorFormData } from '@/lib/calculator';
+
+export default function ShiftTemplateFields() {
+  const {
+    register,
+    control,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+  const { fields, append, remove } = useFieldArray({ control, name: 'shiftTemplates' });
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Shift Templates</legend>
+
+      {fields.map((field, index) => {
+        const templateErrors = errors.shiftTemplates?.[index];
+
+        return (
+          <div key={field.id} className="border border-gray-200 rounded-md p-3 space-y-3">
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              <div>
+                <label htmlFor={`shiftTemplateName${index}`} className="block text-xs text-gray-600 mb-1">
+                  Name
+                </label>
+                <input
+                  id={`shiftTemplateName${index}`}
+                  type="text"
+                  {...register(`shiftTemplates.${index}.name`)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor={`shiftTemplateStart${index}`} className="block text-xs text-gray-600 mb-1">
+                  Start
+                </label>
+                <input
+                  id={`shiftTemplateStart${index}`}
+                  type="time"
+                  {...register(`shiftTemplates.${index}.start`)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor={`shiftTemplateEnd${index}`} className="block text-xs text-gray-600 mb-1">
+                  End
+                </label>
+                <input
+                  id={`shiftTemplateEnd${index}`}
+                  type="time"
+                  {...register(`shiftTemplates.${index}.end`)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor={`shiftTemplateBreak${index}`} className="block text-xs text-gray-600 mb-1">
+                  Break (min)
+                </label>
+                <input
+                  id={`shiftTemplateBreak${index}`}
+                  type="number"
+                  step="5"
+                  min="0"
+                  {...register(`shiftTemplates.${index}.breakMinutes`, { valueAsNumber: true })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor={`shiftTemplateHeadcount${index}`} className="block text-xs text-gray-600 mb-1">
+                  Headcount
+                </label>
+                <input
+                  id={`shiftTemplateHeadcount${index}`}
+                  type="number"
+                  step="1"
+                  min="0"
+                  {...register(`shiftTemplates.${index}.requiredHeadcount`, { valueAsNumber: true })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              {DAYS.map((day, dayIndex) => (
+                <label key={day} className="flex items-center gap-1 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    {...register(`shiftTemplates.${index}.days.${dayIndex}`)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  {day}
+                </label>
+              ))}
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                className="ml-auto px-3 py-1 text-sm text-gray-600 hover:text-red-600"
+              >
+                Remove
+              </button>
+            </div>
+
+            {templateErrors &&
+              (['name', 'start', 'end', 'breakMinutes', 'requiredHeadcount'] as const).map((name) =>
+                templateErrors[name] ? (
+                  <p key={name} className="text-sm text-red-600">
+                    {templateErrors[name]?.message}
+                  </p>
+                ) : null
+              )}
+          </div>
+        );
+      })}
+
+      {errors.shiftTemplates?.message && (
+        <p className="mt-1 text-sm text-red-600">{errors.shiftTemplates.message}</p>
+      )}
+
+      <button
+        type="button"
+        onClick={() =>
+          append({
+            name: `Shift ${fields.length + 1}`,
+            start: '18:00',
+            end: '02:00',
+            breakMinutes: 30,
+            requiredHeadcount: 1,
+            days: [true, true, true, true, true, false, false],
+          })
+        }
+        disabled={fields.length >= 12}
+        className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        + Add shift template
+      </button>
+
+      <p className="text-xs text-gray-500">
+        Used to draft a weekly roster from a proposal; an end before the start runs past midnight
+      </p>
+    </fieldset>
+  );
+}
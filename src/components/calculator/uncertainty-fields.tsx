@@ -0,0 +1,107 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+import type { CalculatorFormData } from '@/lib/calculator';
+
+type DistributionField = 'demandChangePercent' | 'absenceRatePercent';
+type DistributionPoint = 'min' | 'likely' | 'max';
+
+const distributions: { name: DistributionField; label: string; min: string; max: string }[] = [
+  { name: 'demandChangePercent', label: 'Change in Required Hours (%)', min: '-90', max: '500' },
+  { name: 'absenceRatePercent', label: 'Absence Rate (%)', min: '0', max: '90' },
+];
+
+const points: { name: DistributionPoint; label: string }[] = [
+  { name: 'min', label: 'Min' },
+  { name: 'likely', label: 'Most Likely' },
+  { name: 'max', label: 'Max' },
+];
+
+export default function UncertaintyFields() {
+  const {
+    register,
+    watch,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+  const enabled = watch('uncertainty.enabled');
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Uncertainty Simulation</legend>
+
+      <div className="flex items-center gap-2">
+        <input
+          id="uncertaintyEnabled"
+          type="checkbox"
+          {...register('uncertainty.enabled')}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <label htmlFor="uncertaintyEnabled" className="text-sm text-gray-700">
+          Simulate week-to-week swings in demand and absence
+        </label>
+      </div>
+
+      <div>
+        <label htmlFor="uncertaintyRuns" className="block text-sm font-medium text-gray-700 mb-2">
+          Simulated Weeks
+        </label>
+        <input
+          id="uncertaintyRuns"
+          type="number"
+          step="100"
+          min="100"
+          max="20000"
+          readOnly={!enabled}
+          {...register('uncertainty.runs', { valueAsNumber: true })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
+        />
+        {errors.uncertainty?.runs && <p className="mt-1 text-sm text-red-600">{errors.uncertainty.runs.message}</p>}
+      </div>
+
+      {distributions.map((distribution) => {
+        const distributionErrors = errors.uncertainty?.[distribution.name];
+
+        return (
+          <div key={distribution.name}>
+            <p className="block text-sm font-medium text-gray-700 mb-2">{distribution.label}</p>
+            <div className="grid grid-cols-3 gap-3">
+              {points.map((point) => (
+                <div key={point.name}>
+                  <label
+                    htmlFor={`uncertainty${distribution.name}${point.name}`}
+                    className="block text-xs text-gray-600 mb-1"
+                  >
+                    {point.label}
+                  </label>
+                  <input
+                    id={`uncertainty${distribution.name}${point.name}`}
+                    type="number"
+                    step="0.1"
+                    min={distribution.min}
+                    max={distribution.max}
+                    readOnly={!enabled}
+                    {...register(`uncertainty.${distribution.name}.${point.name}`, { valueAsNumber: true })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
+                  />
+                </div>
+              ))}
+            </div>
+            {distributionErrors &&
+              points.map((point) =>
+                distributionErrors[point.name] ? (
+                  <p key={point.name} className="mt-1 text-sm text-red-600">
+                    {distributionErrors[point.name]?.message}
+                  </p>
+                ) : null
+              )}
+          </div>
+        );
+      })}
+
+      <p className="text-xs text-gray-500">
+        Each week draws from triangular distributions. Hires and agency bookings stay as proposed while overtime flexes up
+        to its caps; proposals show P50/P90 loaded cost and how often hours go uncovered
+      </p>
+    </fieldset>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+import type { CalculatorFormData } from '@/lib/calculator';
+
+type UncoveredCostField = 'lostRevenuePerHour' | 'penaltyPerHour';
+
+const uncoveredCostFields: { name: UncoveredCostField; label: string }[] = [
+  { name: 'lostRevenuePerHour', label: 'Lost Revenue per Hour ($)' },
+  { name: 'penaltyPerHour', label: 'SLA Penalty per Hour ($)' },
+];
+
+export default function UncoveredCostFields() {
+  const {
+    register,
+    watch,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+  const enabled = watch('uncoveredCost.enabled');
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Cost of Uncovered Hours</legend>
+
+      <div className="flex items-center gap-2">
+        <input
+          id="uncoveredCostEnabled"
+          type="checkbox"
+          {...register('uncoveredCost.enabled')}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <label htmlFor="uncoveredCostEnabled" className="text-sm text-gray-700">
+          Price hours left uncovered and weigh proposals by economic cost
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {uncoveredCostFields.map((field) => (
+          <div key={field.name}>
+            <label htmlFor={`uncoveredCost${field.name}`} className="block text-sm font-medium text-gray-700 mb-2">
+              {field.label}
+            </label>
+            <input
+              id={`uncoveredCost${field.name}`}
+              type="number"
+              step="0.01"
+              min="0"
+              readOnly={!enabled}
+              {...register(`uncoveredCost.${field.name}`, { valueAsNumber: true })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
+            />
+            {errors.uncoveredCost?.[field.name] && (
+              <p className="mt-1 text-sm text-red-600">{errors.uncoveredCost[field.name]?.message}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Economic cost is loaded cost plus these for every hour left uncovered. Proposals are ranked by it, alongside
+        leaving the gap uncovered altogether
+      </p>
+    </fieldset>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useFormContext } from 'react-hook-form';
+import { payPeriods, type CalculatorFormData, type PayPeriod } from '@/lib/calculator';
+
+export default function WeeklyBudgetFields() {
+  const {
+    register,
+    watch,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+  const enabled = watch('weeklyBudget.enabled');
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Budget</legend>
+
+      <div className="flex items-center gap-2">
+        <input
+          id="weeklyBudgetEnabled"
+          type="checkbox"
+          {...register('weeklyBudget.enabled')}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <label htmlFor="weeklyBudgetEnabled" className="text-sm text-gray-700">
+          Start from a budget: cover as many hours as it allows
+        </label>
+      </div>
+
+      <div>
+        <label htmlFor="weeklyBudgetMaxWeeklySpend" className="block text-sm font-medium text-gray-700 mb-2">
+          Max Spend on Added Cover ($)
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="weeklyBudgetMaxWeeklySpend"
+            type="number"
+            step="0.01"
+            min="0"
+            readOnly={!enabled}
+            {...register('weeklyBudget.maxSpend', { valueAsNumber: true })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
+          />
+          <select
+            aria-label="Budget per"
+            {...register('weeklyBudget.period')}
+            className="px-2 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {(Object.keys(payPeriods) as PayPeriod[]).map((option) => (
+              <option key={option} value={option}>
+                per {payPeriods[option].unit}
+              </option>
+            ))}
+          </select>
+        </div>
+        {errors.weeklyBudget?.maxSpend && (
+          <p className="mt-1 text-sm text-red-600">{errors.weeklyBudget.maxSpend.message}</p>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        The budget is compared with each proposal&apos;s loaded cost. Proposals over it are cut back to the hours it
+        buys and ranked by coverage. A budget per pay period is spread evenly over its weeks
+      </p>
+    </fieldset>
+  );
+}
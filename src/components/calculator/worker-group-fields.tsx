@@ -0,0 +1,113 @@
+'use client';
+
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import type { CalculatorFormData } from '@/lib/calculator';
+
+type NumericGroupField = 'headcount' | 'hourlyRate' | 'currentWeekHours' | 'targetWeekHours' | 'maxExtraHours';
+
+const numericFields: { name: NumericGroupField; label: string; step: string; min: string; max?: string }[] = [
+  { name: 'headcount', label: 'Workers', step: '1', min: '1' },
+  { name: 'hourlyRate', label: 'Hourly Rate ($)', step: '0.01', min: '0.01' },
+  { name: 'currentWeekHours', label: 'Current Hours/Week', step: '1', min: '1', max: '168' },
+  { name: 'targetWeekHours', label: 'Target Hours/Week', step: '1', min: '1', max: '168' },
+  { name: 'maxExtraHours', label: 'Max Extra Hours/Week', step: '1', min: '0' },
+];
+
+export default function WorkerGroupFields() {
+  const {
+    register,
+    control,
+    formState: { errors },
+  } = useFormContext<CalculatorFormData>();
+  const { fields, append, remove } = useFieldArray({ control, name: 'workerGroups' });
+
+  return (
+    <fieldset className="space-y-4">
+      <legend className="block text-sm font-medium text-gray-700 mb-2">Worker Groups</legend>
+
+      {fields.map((field, index) => {
+        const groupErrors = errors.workerGroups?.[index];
+
+        return (
+          <div key={field.id} className="border border-gray-200 rounded-md p-4 space-y-3">
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <label htmlFor={`workerGroupRole${index}`} className="block text-xs text-gray-600 mb-1">
+                  Role
+                </label>
+                <input
+                  id={`workerGroupRole${index}`}
+                  type="text"
+                  {...register(`workerGroups.${index}.role`)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                disabled={fields.length <= 1}
+                className="px-3 py-2 text-sm text-gray-600 hover:text-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Remove
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              {numericFields.map((numericField) => (
+                <div key={numericField.name}>
+                  <label htmlFor={`workerGroup${numericField.name}${index}`} className="block text-xs text-gray-600 mb-1">
+                    {numericField.label}
+                  </label>
+                  <input
+                    id={`workerGroup${numericField.name}${index}`}
+                    type="number"
+                    step={numericField.step}
+                    min={numericField.min}
+                    max={numericField.max}
+                    {...register(`workerGroups.${index}.${numericField.name}`, { valueAsNumber: true })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              ))}
+            </div>
+
+            {groupErrors &&
+              (['role', ...numericFields.map((numericField) => numericField.name)] as const).map((name) =>
+                groupErrors[name] ? (
+                  <p key={name} className="text-sm text-red-600">
+                    {groupErrors[name]?.message}
+                  </p>
+                ) : null
+              )}
+          </div>
+        );
+      })}
+
+      {errors.workerGroups?.message && (
+        <p className="mt-1 text-sm text-red-600">{errors.workerGroups.message}</p>
+      )}
+
+      <button
+        type="button"
+        onClick={() =>
+          append({
+            role: `Group ${fields.length + 1}`,
+            headcount: 1,
+            hourlyRate: 25,
+            currentWeekHours: 40,
+            targetWeekHours: 40,
+            maxExtraHours: 5,
+          })
+        }
+        disabled={fields.length >= 20}
+        className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        + Add worker group
+      </button>
+
+      <p className="text-xs text-gray-500">
+        Overtime goes to the groups with the cheapest extra hour first; new hires join the cheapest role
+      </p>
+    </fieldset>
+  );
+}
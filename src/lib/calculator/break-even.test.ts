@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { breakEvenAnalysis } from './break-even';
+import { CalculatorInputs } from './types';
+
+// Ten workers on 35-hour weeks at $25, each able to add 5 hours of
+// overtime at $37.50; a hire works 35 hours for $875
+const inputs: CalculatorInputs = {
+  workerGroups: [
+    { role: 'Worker', headcount: 10, hourlyRate: 25, currentWeekHours: 40, targetWeekHours: 35, maxExtraHours: 5 },
+  ],
+};
+
+describe('breakEvenAnalysis', () => {
+  const analysis = breakEvenAnalysis(inputs, 80);
+
+  it('prices each strategy across the sweep', () => {
+    expect(analysis.points).toHaveLength(41);
+    expect(analysis.points[0]).toEqual({ deficitHours: 0, costs: { overtime: 0, hire: 0, hybrid: null } });
+    expect(analysis.points[1]).toEqual({ deficitHours: 2, costs: { overtime: 75, hire: 875, hybrid: null } });
+  });
+
+  it('leaves out overtime past its caps', () => {
+    expect(analysis.points[analysis.points.length - 1]).toEqual({
+      deficitHours: 80,
+      costs: { overtime: null, hire: 2625, hybrid: 2750 },
+    });
+  });
+
+  it('finds each crossover to the whole hour', () => {
+    // A first hire beats 24 overtime hours; a second one only beats 47
+    expect(analysis.crossovers).toEqual([
+      { deficitHours: 24, cheaper: 'hire', costlier: 'overtime', cost: 875 },
+      { deficitHours: 36, cheaper: 'overtime', costlier: 'hire', cost: 1350 },
+      { deficitHours: 47, cheaper: 'hire', costlier: 'overtime', cost: 1750 },
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { budgetMetrics } from './budget';
+import { calculateMetrics } from './metrics';
+import { hireWorkersStrategy, hybridStrategy, overtimeStrategy } from './strategies';
+import { CalculatorInputs, CalculatorMetrics, ProposalStrategy } from './types';
+
+export type BreakEvenSeries = 'overtime' | 'hire' | 'hybrid';
+
+// Weekly loaded cost of each strategy at one deficit, null where the
+// strategy doesn't cover it (overtime past its caps, hybrid before them)
+export interface BreakEvenPoint {
+  deficitHours: number;
+  costs: Record<BreakEvenSeries, number | null>;
+}
+
+// From deficitHours on, `cheaper` costs less than `costlier`
+export interface BreakEvenCrossover {
+  deficitHours: number;
+  cheaper: BreakEvenSeries;
+  costlier: BreakEvenSeries;
+  cost: number;
+}
+
+export interface BreakEvenAnalysis {
+  points: BreakEvenPoint[];
+  crossovers: BreakEvenCrossover[];
+}
+
+// Deficits sampled across the sweep before bisecting crossovers
+const BREAK_EVEN_STEPS = 60;
+
+export const breakEvenSeries: Record<BreakEvenSeries, { label: string; strategy: ProposalStrategy }> = {
+  overtime: { label: 'Overtime only', strategy: overtimeStrategy },
+  hire: { label: 'Hire only', strategy: hireWorkersStrategy },
+  hybrid: { label: 'Overtime + hires', strategy: hybridStrategy },
+};
+
+// A strategy's weekly loaded cost when it fully covers the metrics' gap
+function coverCost(strategy: ProposalStrategy, inputs: CalculatorInputs, metrics: CalculatorMetrics): number | null {
+  const proposal = strategy(inputs, metrics);
+  if (!proposal || Array.isArray(proposal) || proposal.uncoveredHours > 0) {
+    return null;
+  }
+  if (inputs.complianceMode === 'reject' && proposal.complianceIssues?.length) {
+    return null;
+  }
+  return proposal.loadedCost;
+}
+
+// Sweep the hours deficit from 0 to maxDeficitHours in whole hours,
+// pricing each point with the overtime, hire and hybrid strategies, and
+// find where one becomes cheaper than another to the whole hour
+export function breakEvenAnalysis(inputs: CalculatorInputs, maxDeficitHours: number): BreakEvenAnalysis {
+  const metrics = calculateMetrics(inputs);
+  const series = Object.keys(breakEvenSeries) as BreakEvenSeries[];
+
+  const pointAt = (deficitHours: number): BreakEvenPoint => {
+    const deficitMetrics = budgetMetrics(metrics, deficitHours);
+    const costs = Object.fromEntries(
+      series.map((key) => [
+        key,
+        deficitHours === 0 ? (key === 'hybrid' ? null : 0) : coverCost(breakEvenSeries[key].strategy, inputs, deficitMetrics),
+      ])
+    ) as Record<BreakEvenSeries, number | null>;
+    return { deficitHours, costs };
+  };
+
+  const step = Math.max(1, Math.ceil(maxDeficitHours / BREAK_EVEN_STEPS));
+  const points: BreakEvenPoint[] = [];
+  for (let hours = 0; hours < maxDeficitHours + step; hours += step) {
+    points.push(pointAt(Math.min(hours, maxDeficitHours)));
+  }
+
+  // Which of a and b is cheaper at a point: -1 for a, 1 for b, 0 for a tie
+  const compare = (point: BreakEvenPoint, a: BreakEvenSeries, b: BreakEvenSeries): number | null => {
+    const costA = point.costs[a];
+    const costB = point.costs[b];
+    return costA === null || costB === null ? null : Math.sign(Math.round((costA - costB) * 100));
+  };
+
+  const crossovers: BreakEvenCrossover[] = [];
+  series.forEach((a, index) => {
+    series.slice(index + 1).forEach((b) => {
+      // Last point where one of the pair was strictly cheaper
+      let previous: { hours: number; sign: number } | null = null;
+
+      for (const point of points) {
+        const sign = compare(point, a, b);
+        if (sign === null) {
+          previous = null;
+          continue;
+        }
+        if (sign === 0) {
+          continue;
+        }
+
+        if (previous && previous.sign !== sign) {
+          // Bisect to the first whole hour where the cheaper one changes
+          let low = previous.hours;
+          let high = point.deficitHours;
+          let crossing = point;
+          while (high - low > 1) {
+            const middle = Math.floor((low + high) / 2);
+            const probe = pointAt(middle);
+            const probeSign = compare(probe, a, b);
+            if (probeSign === null) {
+              break;
+            }
+            if (probeSign === previous.sign) {
+              low = middle;
+            } else {
+              high = middle;
+              crossing = probe;
+            }
+          }
+
+          const cheaper = sign < 0 ? a : b;
+          crossovers.push({
+            deficitHours: crossing.deficitHours,
+            cheaper,
+            costlier: cheaper === a ? b : a,
+            cost: crossing.costs[cheaper] ?? 0,
+          });
+        }
+        previous = { hours: point.deficitHours, sign };
+      }
+    });
+  });
+
+  return { points, crossovers: crossovers.sort((x, y) => x.deficitHours - y.deficitHours) };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { budgetMetrics, budgetNote, withinBudget } from './budget';
+import { calculateMetrics } from './metrics';
+import { hireWorkersStrategy, overtimeStrategy } from './strategies';
+import { CalculatorInputs } from './types';
+
+// Ten workers going from 40 to 35 hours at $25, each able to add 5 hours
+// of overtime: 50 hours to cover
+const inputs: CalculatorInputs = {
+  workerGroups: [
+    { role: 'Worker', headcount: 10, hourlyRate: 25, currentWeekHours: 40, targetWeekHours: 35, maxExtraHours: 5 },
+  ],
+};
+const metrics = calculateMetrics(inputs);
+
+describe('budgetMetrics', () => {
+  it('shrinks the gap and what it is made of in proportion', () => {
+    expect(budgetMetrics(metrics, 20)).toMatchObject({
+      totalHoursToCover: 20,
+      totalHoursToReplace: 20,
+      totalRequiredHours: metrics.totalRequiredHours - 30,
+    });
+  });
+});
+
+describe('budgetNote', () => {
+  it('says how much of the gap the budget covers', () => {
+    expect(budgetNote(3000, 80, 100)).toBe('. The $3,000 weekly budget covers 80 of 100 hours; 20 hours remain uncovered');
+  });
+});
+
+describe('withinBudget', () => {
+  it('covers the most whole hours the budget affords', () => {
+    // 26 overtime hours at $37.50 cost $975; a 27th would pass $1,000
+    expect(withinBudget(overtimeStrategy, inputs, metrics, 1000)).toMatchObject({
+      loadedCost: 975,
+      uncoveredHours: 24,
+      efficiency: 'Partially covered',
+    });
+  });
+
+  it('counts hours a trimmed proposal still leaves as uncovered', () => {
+    // One 35-hour hire for $875 is all $1,000 buys
+    const hire = withinBudget(hireWorkersStrategy, inputs, metrics, 1000);
+
+    expect(hire).toMatchObject({ loadedCost: 875, uncoveredHours: 15 });
+    expect(hire?.details).toContain('The $1,000 weekly budget covers 35 of 50 hours; 15 hours remain uncovered');
+  });
+
+  it('returns null when the budget affords no hours', () => {
+    expect(withinBudget(hireWorkersStrategy, inputs, metrics, 500)).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { roundHours } from './metrics';
+import { CalculatorInputs, CalculatorMetrics, Proposal, ProposalStrategy } from './types';
+
+// Grid points tried before bisecting to the whole hour
+const BUDGET_SEARCH_STEPS = 200;
+
+// Metrics as if only `hours` of the gap needed covering. The hours
+// being replaced, added, absence and holiday cover shrink in proportion.
+export function budgetMetrics(metrics: CalculatorMetrics, hours: number): CalculatorMetrics {
+  const share = metrics.totalHoursToCover > 0 ? hours / metrics.totalHoursToCover : 0;
+
+  return {
+    ...metrics,
+    totalHoursToReplace: roundHours(metrics.totalHoursToReplace * share),
+    totalHoursAboveCurrent: roundHours(metrics.totalHoursAboveCurrent * share),
+    absenceHours: roundHours(metrics.absenceHours * share),
+    holidayHours: roundHours(metrics.holidayHours * share),
+    totalRequiredHours: roundHours(metrics.totalRequiredHours - metrics.totalHoursToCover + hours),
+    totalHoursToCover: hours,
+  };
+}
+
+// e.g. ". The $3,000 weekly budget covers 80 of 100 hours; 20 hours remain uncovered"
+export function budgetNote(budget: number, coveredHours: number, hoursNeeded: number): string {
+  return `. The $${budget.toLocaleString()} weekly budget covers ${coveredHours} of ${hoursNeeded} hours; ${roundHours(hoursNeeded - coveredHours)} hours remain uncovered`;
+}
+
+// The strategy's proposal for the largest whole number of hours it can
+// cover within the budget, or null when it can't afford any. Cost rises
+// with the hours covered, so the grid is scanned from the top down and
+// the first affordable point is refined by bisection.
+export function withinBudget(
+  strategy: ProposalStrategy,
+  inputs: CalculatorInputs,
+  metrics: CalculatorMetrics,
+  budget: number
+): Proposal | null {
+  const hoursNeeded = metrics.totalHoursToCover;
+  const step = Math.max(1, Math.ceil(hoursNeeded / BUDGET_SEARCH_STEPS));
+
+  const affordable = (hours: number): Proposal | null => {
+    const proposal = strategy(inputs, budgetMetrics(metrics, hours));
+    return proposal && !Array.isArray(proposal) && proposal.loadedCost <= budget ? proposal : null;
+  };
+
+  for (let hours = Math.ceil(hoursNeeded / step - 1) * step; hours > 0; hours -= step) {
+    let best = affordable(hours);
+    if (!best) {
+      continue;
+    }
+
+    let low = hours;
+    let high = Math.min(Math.ceil(hoursNeeded), hours + step);
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      const proposal = affordable(middle);
+      if (proposal) {
+        best = proposal;
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    const coveredHours = roundHours(Math.min(hoursNeeded, low) - best.uncoveredHours);
+    return {
+      ...best,
+      uncoveredHours: roundHours(hoursNeeded - coveredHours),
+      efficiency: 'Partially covered',
+      details: best.details + budgetNote(budget, coveredHours, hoursNeeded),
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { uncoveredHoursCost } from './cost';
+import { calculateProposals } from './engine';
+import { calculateMetrics } from './metrics';
+import { leaveUncoveredStrategy } from './strategies';
+import { CalculatorInputs, Proposal } from './types';
+
+// Ten workers going from 40 to 50 hours at $25: 100 hours to cover,
+// half of which 5 hours of overtime each can
+function team(lostRevenuePerHour: number): CalculatorInputs {
+  return {
+    workerGroups: [
+      { role: 'Worker', headcount: 10, hourlyRate: 25, currentWeekHours: 40, targetWeekHours: 50, maxExtraHours: 5 },
+    ],
+    uncoveredCost: { enabled: true, lostRevenuePerHour, penaltyPerHour: 10 },
+  };
+}
+
+// Where each proposal ranks, leaving out the rest
+function ranking(proposals: Proposal[], ids: string[]): string[] {
+  return proposals.map((proposal) => proposal.id).filter((id) => ids.includes(id));
+}
+
+describe('uncoveredHoursCost', () => {
+  it('charges lost revenue and penalties per uncovered hour', () => {
+    expect(uncoveredHoursCost(12.5, { enabled: true, lostRevenuePerHour: 30, penaltyPerHour: 10 })).toBe(500);
+  });
+
+  it('is free when uncovered hours are not priced', () => {
+    expect(uncoveredHoursCost(12.5)).toBe(0);
+    expect(uncoveredHoursCost(12.5, { enabled: false, lostRevenuePerHour: 30, penaltyPerHour: 10 })).toBe(0);
+  });
+});
+
+describe('leaveUncoveredStrategy', () => {
+  it('covers nothing and costs nothing in wages', () => {
+    const inputs = team(30);
+    expect(leaveUncoveredStrategy(inputs, calculateMetrics(inputs))).toMatchObject({
+      id: 'leaveUncovered',
+      uncoveredHours: 100,
+      loadedCost: 0,
+      efficiency: 'Partially covered',
+    });
+  });
+
+  it('is only offered when uncovered hours are priced', () => {
+    const inputs = { ...team(30), uncoveredCost: undefined };
+    expect(leaveUncoveredStrategy(inputs, calculateMetrics(inputs))).toBeNull();
+  });
+});
+
+describe('economic cost', () => {
+  it('adds the cost of uncovered hours to the loaded cost', () => {
+    const overtime = calculateProposals(team(30)).find((proposal) => proposal.id === 'overtime');
+    // $1,875 of overtime leaves 50 hours at $40
+    expect(overtime).toMatchObject({ loadedCost: 1875, uncoveredCost: 2000, economicCost: 3875 });
+  });
+
+  it('ranks proposals by economic cost', () => {
+    const ids = ['hire', 'hybrid', 'overtime', 'leaveUncovered'];
+
+    expect(ranking(calculateProposals(team(30)), ids)).toEqual(['hire', 'hybrid', 'overtime', 'leaveUncovered']);
+    // At $20 an hour, leaving the gap is cheaper than covering it
+    expect(ranking(calculateProposals(team(10)), ids)).toEqual(['leaveUncovered', 'hire', 'overtime', 'hybrid']);
+  });
+});
@@ -0,0 +1,29 @@
+import { LaborBurden, UncoveredCost } from './types';
+
+// Round to two decimal places: cents, or hundredths of an hour or multiplier
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Weekly cost once payroll taxes, new-hire benefits and amortized
+// recruiting and onboarding are added to the wage bill
+export function loadedCost(baseCost: number, newHires: number, burden?: LaborBurden): number {
+  if (!burden) {
+    return baseCost;
+  }
+
+  const taxes = baseCost * (burden.employerTaxPercent / 100);
+  const hiring = burden.amortizationWeeks > 0 ? burden.hiringCostPerHead / burden.amortizationWeeks : 0;
+  const perHire = burden.benefitsPerHeadWeekly + hiring;
+
+  return Math.round((baseCost + taxes + newHires * perHire) * 100) / 100;
+}
+
+// Weekly lost revenue and penalties for hours left uncovered
+export function uncoveredHoursCost(uncoveredHours: number, cost?: UncoveredCost): number {
+  if (!cost?.enabled) {
+    return 0;
+  }
+
+  return Math.round(uncoveredHours * (cost.lostRevenuePerHour + cost.penaltyPerHour) * 100) / 100;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { currentCoverage, emptyGrid, proposalCoverage, uncoveredSlotHours } from './coverage';
+import { CalculatorInputs, WeeklyGrid } from './types';
+
+// `headcount` people needed from `from` to `to` o'clock on the given days (0 = Monday)
+function demand(headcount: number, from: number, to: number, days = [0, 1, 2, 3, 4]): WeeklyGrid {
+  const grid = emptyGrid();
+  days.forEach((day) => {
+    for (let hour = from; hour < to; hour++) {
+      grid[day][hour] = headcount;
+    }
+  });
+  return grid;
+}
+
+function team(headcount: number, currentWeekHours = 40): CalculatorInputs {
+  return {
+    workerGroups: [
+      { role: 'Worker', headcount, hourlyRate: 25, currentWeekHours, targetWeekHours: currentWeekHours, maxExtraHours: 5 },
+    ],
+  };
+}
+
+describe('uncoveredSlotHours', () => {
+  it('adds up the headcount-hours short of demand, ignoring overstaffing', () => {
+    const staffed = demand(1, 9, 17);
+    staffed[5][12] = 3;
+
+    expect(uncoveredSlotHours(demand(2, 9, 17), staffed)).toBe(40);
+  });
+});
+
+describe('proposalCoverage', () => {
+  it('places shifts where the demand is', () => {
+    const required = demand(2, 9, 17);
+    const coverage = currentCoverage(team(2), required);
+
+    expect(coverage.uncoveredSlotHours).toBe(0);
+    expect(coverage.staffed).toEqual(required);
+  });
+
+  it('counts the slot-hours a short team leaves', () => {
+    expect(currentCoverage(team(1), demand(2, 9, 17)).uncoveredSlotHours).toBe(40);
+  });
+
+  it('lengthens the shifts of workers on overtime', () => {
+    const inputs = team(2, 30);
+    const [group] = inputs.workerGroups;
+    const mix = { overtime: [{ group, workers: 2, hours: 20, hoursPerWorker: 10, cost: 750 }] };
+
+    expect(currentCoverage(inputs, demand(2, 9, 17)).uncoveredSlotHours).toBe(20);
+    expect(proposalCoverage(inputs, mix, demand(2, 9, 17)).uncoveredSlotHours).toBe(0);
+  });
+
+  it('runs night shifts from Sunday into Monday', () => {
+    const required = emptyGrid();
+    required[6][22] = 1;
+    required[6][23] = 1;
+    required[0][0] = 1;
+    required[0][1] = 1;
+
+    // One 4-hour shift from Sunday 22:00 covers all four slots
+    expect(currentCoverage(team(1, 20), required).uncoveredSlotHours).toBe(0);
+  });
+});
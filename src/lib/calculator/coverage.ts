@@ -0,0 +1,123 @@
+import { DEFAULT_OVERTIME_RULE } from './overtime';
+import { CalculatorInputs, CoverageSummary, ProposalMix, WeeklyGrid } from './types';
+import { scheduledHours } from './workforce';
+
+export const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+export const HOURS_PER_WEEK = 168;
+
+// Identical workers each working one shift a day on up to `days` days
+interface ShiftPool {
+  count: number;
+  days: number;
+  shiftHours: number;
+}
+
+export function emptyGrid(): WeeklyGrid {
+  return DAYS.map(() => Array<number>(24).fill(0));
+}
+
+// Headcount-hours below demand across the week
+export function uncoveredSlotHours(required: WeeklyGrid, staffed: WeeklyGrid): number {
+  let total = 0;
+  required.forEach((day, d) =>
+    day.forEach((headcount, h) => {
+      total += Math.max(0, headcount - (staffed[d]?.[h] ?? 0));
+    })
+  );
+  return Math.round(total * 100) / 100;
+}
+
+// Share of slot `offset` a shift of `shiftHours` starting at slot 0 covers
+function shiftShare(offset: number, shiftHours: number): number {
+  return Math.min(1, Math.max(0, shiftHours - offset));
+}
+
+// Place every shift in the pool where it covers the most unmet demand.
+// Shifts may run past midnight, and Sunday night wraps into Monday.
+function placePool(required: number[], staffed: number[], pool: ShiftPool): void {
+  const shiftHours = Math.min(24, pool.shiftHours);
+  const span = Math.ceil(shiftHours);
+  const shiftsPerDay = DAYS.map(() => 0);
+  if (span === 0) {
+    return;
+  }
+
+  for (let shift = 0; shift < pool.count * pool.days; shift++) {
+    let bestStart = -1;
+    let bestGain = 0;
+
+    for (let start = 0; start < HOURS_PER_WEEK; start++) {
+      if (shiftsPerDay[Math.floor(start / 24)] >= pool.count) {
+        continue;
+      }
+
+      let gain = 0;
+      for (let offset = 0; offset < span; offset++) {
+        const slot = (start + offset) % HOURS_PER_WEEK;
+        gain += Math.min(Math.max(0, required[slot] - staffed[slot]), shiftShare(offset, shiftHours));
+      }
+      if (gain > bestGain) {
+        bestGain = gain;
+        bestStart = start;
+      }
+    }
+
+    // Nothing left this pool can help with
+    if (bestStart < 0) {
+      return;
+    }
+
+    shiftsPerDay[Math.floor(bestStart / 24)]++;
+    for (let offset = 0; offset < span; offset++) {
+      staffed[(bestStart + offset) % HOURS_PER_WEEK] += shiftShare(offset, shiftHours);
+    }
+  }
+}
+
+// Shift pools a proposal puts on the floor: every group at its scheduled
+// hours, with overtime lengthening the shifts of the workers who take it,
+// plus any new hires and agency bookings
+function shiftPools(inputs: CalculatorInputs, mix: ProposalMix): ShiftPool[] {
+  const days = (inputs.overtimeRule ?? DEFAULT_OVERTIME_RULE).daysPerWeek;
+  const pools: ShiftPool[] = [];
+
+  inputs.workerGroups.forEach((group) => {
+    const allocation = mix.overtime.find((candidate) => candidate.group === group);
+    const overtimeWorkers = Math.min(group.headcount, allocation?.workers ?? 0);
+    const base = scheduledHours(group);
+
+    if (allocation && overtimeWorkers > 0) {
+      pools.push({ count: overtimeWorkers, days, shiftHours: (base + allocation.hours / overtimeWorkers) / days });
+    }
+    pools.push({ count: group.headcount - overtimeWorkers, days, shiftHours: base / days });
+  });
+
+  if (mix.hire) {
+    pools.push({ count: mix.hire.workers, days, shiftHours: mix.hire.group.targetWeekHours / days });
+    pools.push({ count: mix.hire.partTimeWorkers, days, shiftHours: mix.hire.partTimeHours / days });
+  }
+
+  if (mix.agency && inputs.agencyStaffing) {
+    const block = inputs.agencyStaffing.minBookingHours;
+    pools.push({ count: Math.round(mix.agency.bookedHours / block), days: 1, shiftHours: block });
+  }
+
+  // Longer shifts are the hardest to place, so they go first
+  return pools.filter((pool) => pool.count > 0).sort((a, b) => b.shiftHours - a.shiftHours);
+}
+
+// Hour-by-hour staffing a proposal achieves against the demand curve
+export function proposalCoverage(inputs: CalculatorInputs, mix: ProposalMix, required: WeeklyGrid): CoverageSummary {
+  const demand = required.flat();
+  const staffed = Array<number>(HOURS_PER_WEEK).fill(0);
+
+  shiftPools(inputs, mix).forEach((pool) => placePool(demand, staffed, pool));
+
+  const grid = DAYS.map((_, d) => staffed.slice(d * 24, d * 24 + 24).map((headcount) => Math.round(headcount * 100) / 100));
+  return { staffed: grid, uncoveredSlotHours: uncoveredSlotHours(required, grid) };
+}
+
+// Staffing with everyone at their scheduled hours and no changes
+export function currentCoverage(inputs: CalculatorInputs, required: WeeklyGrid): CoverageSummary {
+  return proposalCoverage(inputs, { overtime: [] }, required);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { coverDifferential, coverPay, coverRate, dayRate, differentialNote } from './differentials';
+import { CalculatorInputs, ShiftDifferential } from './types';
+
+const weekdays = [true, true, true, true, true, false, false];
+
+// Four workers fill the weekday day shift, leaving the weekday night
+// shift, which runs from Friday into Saturday, as the gap
+const inputs: CalculatorInputs = {
+  workerGroups: [
+    { role: 'Worker', headcount: 4, hourlyRate: 20, currentWeekHours: 40, targetWeekHours: 40, maxExtraHours: 8 },
+  ],
+  shiftTemplates: [
+    { name: 'Day', start: '09:00', end: '17:00', breakMinutes: 0, requiredHeadcount: 4, days: weekdays },
+    { name: 'Night', start: '22:00', end: '06:00', breakMinutes: 0, requiredHeadcount: 1, days: weekdays },
+  ],
+  shiftDifferentials: [
+    { name: 'Nights', days: Array(7).fill(true), start: '22:00', end: '06:00', kind: 'flat', amount: 4 },
+    { name: 'Weekend', days: [false, false, false, false, false, true, true], start: '00:00', end: '00:00', kind: 'percent', amount: 50 },
+  ],
+};
+const [group] = inputs.workerGroups;
+
+describe('coverDifferential', () => {
+  it('splits the covered hours into windows by the differentials they earn', () => {
+    const differential = coverDifferential(inputs);
+
+    expect(differential?.basis).toBe('shifts');
+    expect(differential?.windows.map(({ label, flatPerHour, percent }) => [label, flatPerHour, percent])).toEqual([
+      ['Nights', 4, 0],
+      ['Nights + Weekend', 4, 50],
+    ]);
+    // Six of the forty night hours fall on Saturday morning
+    expect(differential?.windows.map((window) => window.share)).toEqual([
+      expect.closeTo(0.85, 10),
+      expect.closeTo(0.15, 10),
+    ]);
+  });
+
+  it('is null when no differential reaches the covered hours', () => {
+    const sundays: ShiftDifferential = {
+      name: 'Sunday',
+      days: [false, false, false, false, false, false, true],
+      start: '00:00',
+      end: '00:00',
+      kind: 'percent',
+      amount: 100,
+    };
+    expect(coverDifferential({ ...inputs, shiftDifferentials: [sundays] })).toBeNull();
+    expect(coverDifferential({ ...inputs, shiftDifferentials: [] })).toBeNull();
+  });
+});
+
+describe('coverPay', () => {
+  it('prices each window at its own rate', () => {
+    // $24 on weeknights, $34 into Saturday
+    expect(coverRate(group, inputs)).toBeCloseTo(25.5, 10);
+    expect(coverPay(group, inputs, (rate) => rate * 10)).toBe(255);
+  });
+
+  it('applies pay rules per window rather than to the average rate', () => {
+    // Only the Saturday window clears $30, so only it earns anything here
+    const above30 = (rate: number) => Math.max(0, rate - 30) * 10;
+    expect(coverPay(group, inputs, above30)).toBe(6);
+    expect(above30(coverRate(group, inputs))).toBe(0);
+  });
+});
+
+describe('dayRate', () => {
+  it('averages the differentials of the hours staff work that day', () => {
+    // Mondays: 32 day-shift hours at $20 and two night hours at $24
+    expect(dayRate(group, inputs, 0)).toBeCloseTo((32 * 20 + 2 * 24) / 34, 10);
+    // Saturdays: only Friday's night shift, at $34
+    expect(dayRate(group, inputs, 5)).toBe(34);
+    expect(dayRate(group, { ...inputs, shiftDifferentials: [] }, 5)).toBe(20);
+  });
+});
+
+describe('differentialNote', () => {
+  it('describes each window', () => {
+    expect(differentialNote(inputs)).toBe(
+      '. Priced window by window where the shift templates fall: Nights 85% of hours at +$4.00/h, ' +
+        'Nights + Weekend 15% of hours at +$4.00/h and +50%'
+    );
+  });
+});
@@ -0,0 +1,215 @@
+import { round2 } from './cost';
+import { HOURS_PER_WEEK, currentCoverage, emptyGrid } from './coverage';
+import { parseTime } from './roster';
+import { CalculatorInputs, CoverDifferential, CoverWindow, ShiftDifferential, WorkerGroup } from './types';
+
+// Cover differentials and staffing are worked out once per set of
+// inputs; the engine prices the same inputs many times over
+const coverDifferentials = new WeakMap<CalculatorInputs, CoverDifferential | null>();
+const staffingWeights = new WeakMap<CalculatorInputs, number[] | null>();
+
+// Add `weight` to each hour of the week a window overlaps, by the share
+// of the hour it covers. Windows starting late on Sunday wrap into Monday.
+function addWindow(grid: number[], start: number, end: string, weight: number): void {
+  const finish = parseTime(end) + Math.floor(start / 24) * 24;
+  const stop = finish > start ? finish : finish + 24;
+
+  for (let hour = Math.floor(start); hour < Math.ceil(stop); hour++) {
+    const overlap = Math.min(stop, hour + 1) - Math.max(start, hour);
+    if (overlap > 0) {
+      grid[hour % HOURS_PER_WEEK] += overlap * weight;
+    }
+  }
+}
+
+// Flat $/hour and percentage differentials earned in each hour of the
+// week, and the names of the differentials behind them
+export function differentialGrid(differentials: ShiftDifferential[]): {
+  flat: number[];
+  percent: number[];
+  names: string[][];
+} {
+  const flat = Array<number>(HOURS_PER_WEEK).fill(0);
+  const percent = Array<number>(HOURS_PER_WEEK).fill(0);
+  const names = Array.from({ length: HOURS_PER_WEEK }, () => [] as string[]);
+
+  differentials.forEach((differential) => {
+    const overlaps = Array<number>(HOURS_PER_WEEK).fill(0);
+    differential.days.forEach((active, day) => {
+      if (active) {
+        addWindow(overlaps, day * 24 + parseTime(differential.start), differential.end, 1);
+      }
+    });
+
+    const grid = differential.kind === 'flat' ? flat : percent;
+    overlaps.forEach((overlap, hour) => {
+      if (overlap > 0) {
+        grid[hour] += overlap * differential.amount;
+        if (!names[hour].includes(differential.name)) {
+          names[hour].push(differential.name);
+        }
+      }
+    });
+  });
+
+  return { flat, percent, names };
+}
+
+// Headcount the shift templates ask for in each hour of the week
+function templateDemand(inputs: CalculatorInputs): number[] {
+  const demand = Array<number>(HOURS_PER_WEEK).fill(0);
+  (inputs.shiftTemplates ?? []).forEach((template) => {
+    template.days.forEach((active, day) => {
+      if (active) {
+        addWindow(demand, day * 24 + parseTime(template.start), template.end, template.requiredHeadcount);
+      }
+    });
+  });
+  return demand;
+}
+
+// Where in the week covered hours land: wherever current staffing falls
+// short of the demand curve, or of the shift templates without one. When
+// staffing already fills the templates, the hours the templates ask for.
+function coverWeights(inputs: CalculatorInputs): { weights: number[]; basis: CoverDifferential['basis'] } | null {
+  const demand = inputs.demandCurve;
+  const required = demand?.enabled ? demand.required.flat() : templateDemand(inputs);
+  const basis = demand?.enabled ? 'demand' : 'shifts';
+  if (!required.some((headcount) => headcount > 0)) {
+    return null;
+  }
+
+  const grid = emptyGrid().map((day, d) => day.map((_, h) => required[d * 24 + h]));
+  const staffed = currentCoverage(inputs, grid).staffed.flat();
+  const gap = required.map((headcount, hour) => Math.max(0, headcount - staffed[hour]));
+  if (gap.some((weight) => weight > 0)) {
+    return { weights: gap, basis };
+  }
+
+  return basis === 'shifts' ? { weights: required, basis } : null;
+}
+
+// The differential windows the covered hours fall in, each with its
+// share of them, or null when there are no differentials or nothing
+// places the hours in the week
+export function coverDifferential(inputs: CalculatorInputs): CoverDifferential | null {
+  const cached = coverDifferentials.get(inputs);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const differentials = inputs.shiftDifferentials ?? [];
+  const cover = differentials.length > 0 ? coverWeights(inputs) : null;
+  let result: CoverDifferential | null = null;
+
+  if (cover) {
+    const grid = differentialGrid(differentials);
+    const total = cover.weights.reduce((sum, weight) => sum + weight, 0);
+    const windows = new Map<string, CoverWindow>();
+
+    cover.weights.forEach((weight, hour) => {
+      if (weight <= 0) {
+        return;
+      }
+      const flatPerHour = round2(grid.flat[hour]);
+      const percent = round2(grid.percent[hour]);
+      const label = flatPerHour > 0 || percent > 0 ? grid.names[hour].join(' + ') : 'Standard';
+      const key = `${label}|${flatPerHour}|${percent}`;
+      const window = windows.get(key) ?? { label, share: 0, flatPerHour, percent };
+      window.share += weight / total;
+      windows.set(key, window);
+    });
+
+    const priced = [...windows.values()].sort((a, b) => b.share - a.share);
+    result = priced.some((window) => window.flatPerHour > 0 || window.percent > 0)
+      ? { windows: priced, basis: cover.basis }
+      : null;
+  }
+
+  coverDifferentials.set(inputs, result);
+  return result;
+}
+
+// A group's pay per hour within a window, differentials included
+function windowRate(group: WorkerGroup, window: Pick<CoverWindow, 'flatPerHour' | 'percent'>): number {
+  return group.hourlyRate * (1 + window.percent / 100) + window.flatPerHour;
+}
+
+// Pay for covered hours, priced window by window: `pay` gives the cost
+// at one hourly rate (e.g. overtime with its multipliers), and each
+// window contributes it at its own rate for its share of the hours
+export function coverPay(group: WorkerGroup, inputs: CalculatorInputs, pay: (hourlyRate: number) => number): number {
+  const differential = coverDifferential(inputs);
+  if (!differential) {
+    return pay(group.hourlyRate);
+  }
+
+  return round2(differential.windows.reduce((sum, window) => sum + window.share * pay(windowRate(group, window)), 0));
+}
+
+// A group's average pay per covered hour, differentials included.
+// Overtime multipliers apply on top, window by window, through coverPay.
+export function coverRate(group: WorkerGroup, inputs: CalculatorInputs): number {
+  const differential = coverDifferential(inputs);
+  if (!differential) {
+    return group.hourlyRate;
+  }
+
+  return differential.windows.reduce((sum, window) => sum + window.share * windowRate(group, window), 0);
+}
+
+// Headcount current staff put on the floor in each hour of the week:
+// placed against the demand curve, or else along the shift templates
+function currentStaffing(inputs: CalculatorInputs): number[] | null {
+  const cached = staffingWeights.get(inputs);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const demand = inputs.demandCurve;
+  const weights = demand?.enabled ? currentCoverage(inputs, demand.required).staffed.flat() : templateDemand(inputs);
+  const result = weights.some((weight) => weight > 0) ? weights : null;
+  staffingWeights.set(inputs, result);
+  return result;
+}
+
+// A group's average pay per scheduled hour on one day of the week
+// (0 = Monday), with the differentials of the hours staff work that day
+export function dayRate(group: WorkerGroup, inputs: CalculatorInputs, day: number): number {
+  const differentials = inputs.shiftDifferentials ?? [];
+  const staffing = differentials.length > 0 ? currentStaffing(inputs) : null;
+  const weights = staffing?.slice(day * 24, day * 24 + 24) ?? [];
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) {
+    return group.hourlyRate;
+  }
+
+  const grid = differentialGrid(differentials);
+  return (
+    weights.reduce(
+      (sum, weight, hour) =>
+        sum + weight * windowRate(group, { flatPerHour: grid.flat[day * 24 + hour], percent: grid.percent[day * 24 + hour] }),
+      0
+    ) / total
+  );
+}
+
+// e.g. ". Priced window by window where demand outruns current staffing: Nights 30% of hours at +$2.00/h, ..."
+export function differentialNote(inputs: CalculatorInputs): string {
+  const differential = coverDifferential(inputs);
+  if (!differential) {
+    return '';
+  }
+
+  const windows = differential.windows.map((window) => {
+    const rates = [
+      ...(window.flatPerHour > 0 ? [`+$${window.flatPerHour.toFixed(2)}/h`] : []),
+      ...(window.percent > 0 ? [`+${window.percent}%`] : []),
+    ];
+    const share = `${Math.round(window.share * 100)}% of hours`;
+    return rates.length > 0 ? `${window.label} ${share} at ${rates.join(' and ')}` : `${window.label} ${share}`;
+  });
+  const basis =
+    differential.basis === 'demand' ? 'where demand outruns current staffing' : 'where the shift templates fall';
+  return `. Priced window by window ${basis}: ${windows.join(', ')}`;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { calculateProposals, sortProposals } from './engine';
+import { calculateMetrics } from './metrics';
+import { hybridStrategy } from './strategies';
+import { CalculatorInputs, Proposal, WorkerGroup } from './types';
+
+// Ten workers on 40 hours at $25, each able to add 5 hours of overtime
+function team(targetWeekHours: number, overrides: Partial<WorkerGroup> = {}): CalculatorInputs {
+  return {
+    workerGroups: [
+      {
+        role: 'Worker',
+        headcount: 10,
+        hourlyRate: 25,
+        currentWeekHours: 40,
+        targetWeekHours,
+        maxExtraHours: 5,
+        ...overrides,
+      },
+    ],
+  };
+}
+
+function byId(proposals: Proposal[], id: string): Proposal {
+  const proposal = proposals.find((item) => item.id === id);
+  if (!proposal) {
+    throw new Error(`No ${id} proposal among ${proposals.map((item) => item.id).join(', ')}`);
+  }
+  return proposal;
+}
+
+describe('calculateProposals', () => {
+  it('reports capacity matching the target when nothing needs covering', () => {
+    const proposals = calculateProposals(team(40));
+
+    expect(proposals.map((proposal) => proposal.id)).toEqual(['capacity']);
+    expect(proposals[0]).toMatchObject({ totalWeeklyHours: 400, uncoveredHours: 0, costImpact: 0, efficiency: 'Fully covered' });
+  });
+
+  it('redistributes the hours lost when reducing hours per worker', () => {
+    const inputs = team(35);
+    expect(calculateMetrics(inputs)).toMatchObject({ totalHourDifference: -50, totalHoursToCover: 50 });
+
+    const overtime = byId(calculateProposals(inputs), 'overtime');
+    expect(overtime.option).toBe('Redistribute Hours with Overtime');
+    // 50 hours at 1.5 × $25
+    expect(overtime).toMatchObject({ totalWeeklyHours: 400, uncoveredHours: 0, costImpact: 1875 });
+  });
+
+  it('covers a deficit when increasing hours per worker', () => {
+    const proposals = calculateProposals(team(45));
+
+    expect(byId(proposals, 'overtime')).toMatchObject({
+      option: 'Cover Deficit with Overtime',
+      totalWeeklyHours: 450,
+      uncoveredHours: 0,
+      costImpact: 1875,
+    });
+    // Two 45-hour hires cover 50 hours with 40 left idle
+    expect(byId(proposals, 'hire')).toMatchObject({ totalWeeklyHours: 490, idleHours: 40, costImpact: 2250 });
+  });
+
+  it('ranks proposals that leave hours uncovered after those that cover them', () => {
+    const proposals = calculateProposals(team(50));
+    const overtime = byId(proposals, 'overtime');
+
+    expect(overtime).toMatchObject({ uncoveredHours: 50, efficiency: 'Partially covered' });
+    expect(proposals[proposals.length - 1].id).toBe('overtime');
+    expect(proposals.slice(0, -1).every((proposal) => proposal.uncoveredHours === 0)).toBe(true);
+  });
+});
+
+describe('hybridStrategy', () => {
+  it('hires for the hours overtime caps leave uncovered', () => {
+    const inputs = team(50);
+    const hybrid = hybridStrategy(inputs, calculateMetrics(inputs)) as Proposal;
+
+    // 50 hours of overtime at $37.50 plus one 50-hour hire at $25
+    expect(hybrid).toMatchObject({ id: 'hybrid', totalWeeklyHours: 500, uncoveredHours: 0, costImpact: 3125 });
+    expect(hybrid.mix).toMatchObject({ overtime: [{ hours: 50, workers: 10 }], hire: { workers: 1, hours: 50 } });
+  });
+
+  it('does not apply while overtime alone covers the deficit', () => {
+    const inputs = team(45);
+    expect(hybridStrategy(inputs, calculateMetrics(inputs))).toBeNull();
+  });
+});
+
+describe('sortProposals', () => {
+  const proposal = (id: string, uncoveredHours: number, loadedCost: number, economicCost?: number): Proposal => ({
+    id,
+    option: id,
+    description: '',
+    totalWeeklyHours: 0,
+    uncoveredHours,
+    costImpact: loadedCost,
+    costPercentageChange: 0,
+    loadedCost,
+    efficiency: uncoveredHours > 0 ? 'Partially covered' : 'Fully covered',
+    details: '',
+    economicCost,
+  });
+
+  it('ranks by uncovered hours before cost', () => {
+    const sorted = sortProposals([proposal('cheap', 20, 100), proposal('full', 0, 500)]);
+    expect(sorted.map((item) => item.id)).toEqual(['full', 'cheap']);
+  });
+
+  it('ranks by economic cost first when uncovered hours are priced', () => {
+    const sorted = sortProposals([proposal('full', 0, 500, 500), proposal('cheap', 20, 100, 300)]);
+    expect(sorted.map((item) => item.id)).toEqual(['cheap', 'full']);
+  });
+});
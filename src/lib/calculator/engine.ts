@@ -0,0 +1,113 @@
+import { withinBudget } from './budget';
+import { loadedCost, round2, uncoveredHoursCost } from './cost';
+import { proposalCoverage } from './coverage';
+import { differentialNote } from './differentials';
+import { holidayNote } from './holidays';
+import { buildSchedule } from './horizon';
+import { calculateMetrics, costPercentage } from './metrics';
+import { defaultStrategies } from './strategies';
+import { CalculatorInputs, CalculatorMetrics, Proposal, ProposalStrategy } from './types';
+
+// Sort proposals by uncovered hours, fewest first, then by uncovered
+// slot-hours when there is a demand curve, then by fully-loaded cost,
+// cheapest first, then by wages. When uncovered hours are priced,
+// economic cost comes before all of that.
+export function sortProposals(proposals: Proposal[]): Proposal[] {
+  return [...proposals].sort(
+    (a, b) =>
+      (a.economicCost ?? 0) - (b.economicCost ?? 0) ||
+      a.uncoveredHours - b.uncoveredHours ||
+      (a.coverage?.uncoveredSlotHours ?? 0) - (b.coverage?.uncoveredSlotHours ?? 0) ||
+      a.loadedCost - b.loadedCost ||
+      a.costImpact - b.costImpact
+  );
+}
+
+// A proposal with the planned week's holiday premium added to its cost.
+// Every proposal pays it, whoever works the holiday hours.
+function withHolidayPremium(proposal: Proposal, inputs: CalculatorInputs, metrics: CalculatorMetrics): Proposal {
+  if (metrics.holidayPremiumCost <= 0) {
+    return proposal;
+  }
+
+  const costImpact = round2(proposal.costImpact + metrics.holidayPremiumCost);
+  return {
+    ...proposal,
+    costImpact,
+    costPercentageChange: costPercentage(costImpact, metrics),
+    loadedCost: round2(proposal.loadedCost + loadedCost(metrics.holidayPremiumCost, 0, inputs.laborBurden)),
+    details:
+      proposal.details +
+      holidayNote(inputs) +
+      (inputs.weeklyBudget?.enabled
+        ? `, set aside from the $${inputs.weeklyBudget.maxWeeklySpend.toLocaleString()} budget`
+        : ''),
+  };
+}
+
+// A proposal with what its uncovered hours cost the business, and its
+// economic cost: loaded cost plus that
+function withUncoveredCost(proposal: Proposal, inputs: CalculatorInputs): Proposal {
+  if (!inputs.uncoveredCost?.enabled) {
+    return proposal;
+  }
+
+  const uncoveredCost = uncoveredHoursCost(proposal.uncoveredHours, inputs.uncoveredCost);
+  return {
+    ...proposal,
+    uncoveredCost,
+    economicCost: round2(proposal.loadedCost + uncoveredCost),
+  };
+}
+
+// Run every applicable strategy against the inputs, dropping
+// non-compliant proposals in reject mode. With a weekly budget, a
+// proposal over it is replaced by the most cover it can buy, after
+// setting aside any holiday premium. Horizon
+// mode adds a week-by-week schedule to each proposal, and a demand
+// curve adds hour-by-hour coverage. Priced uncovered hours add an
+// economic cost to rank by.
+export function calculateProposals(
+  inputs: CalculatorInputs,
+  strategies: ProposalStrategy[] = defaultStrategies
+): Proposal[] {
+  const metrics = calculateMetrics(inputs);
+  const premium = loadedCost(metrics.holidayPremiumCost, 0, inputs.laborBurden);
+  const budget = inputs.weeklyBudget?.enabled ? Math.max(0, inputs.weeklyBudget.maxWeeklySpend - premium) : null;
+  // Strategies that apply the budget themselves see what's left of it
+  const strategyInputs =
+    inputs.weeklyBudget && budget !== null && premium > 0
+      ? { ...inputs, weeklyBudget: { ...inputs.weeklyBudget, maxWeeklySpend: budget } }
+      : inputs;
+
+  const proposals = strategies
+    .flatMap((strategy) => {
+      const result = strategy(strategyInputs, metrics);
+      if (budget === null || !result || Array.isArray(result) || result.loadedCost <= budget) {
+        return result ?? [];
+      }
+      return withinBudget(strategy, strategyInputs, metrics, budget) ?? [];
+    })
+    .map((proposal) =>
+      proposal.costImpact > 0 ? { ...proposal, details: proposal.details + differentialNote(inputs) } : proposal
+    )
+    .map((proposal) => withHolidayPremium(proposal, inputs, metrics))
+    .map((proposal) => withUncoveredCost(proposal, inputs))
+    .filter((proposal) => inputs.complianceMode !== 'reject' || !proposal.complianceIssues?.length)
+    .map((proposal) => {
+      const horizon = inputs.planningHorizon;
+      return horizon?.enabled && proposal.mix
+        ? { ...proposal, schedule: buildSchedule(inputs, metrics, proposal.mix, horizon) }
+        : proposal;
+    })
+    .map((proposal) => {
+      const demand = inputs.demandCurve;
+      return demand?.enabled && proposal.mix
+        ? { ...proposal, coverage: proposalCoverage(inputs, proposal.mix, demand.required) }
+        : proposal;
+    });
+
+  return sortProposals(proposals);
+}
+
+export default calculateProposals;
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { monthOfWeek, seasonalForecast, seasonalHoursToCover, weeklyDemandMultipliers } from './forecast';
+import { calculateMetrics } from './metrics';
+import { CalculatorInputs } from './types';
+
+// Ten workers on 40 hours aiming for 42: 20 hours short at usual demand,
+// which 5 hours of overtime each covers
+const base: CalculatorInputs = {
+  workerGroups: [
+    { role: 'Worker', headcount: 10, hourlyRate: 25, currentWeekHours: 40, targetWeekHours: 42, maxExtraHours: 5 },
+  ],
+};
+
+// A quiet start to the year and a busy summer and December
+const inputs: CalculatorInputs = {
+  ...base,
+  seasonalDemand: {
+    enabled: true,
+    granularity: 'monthly',
+    monthlyMultipliers: [0.9, 0.9, 1, 1, 1, 1, 1.2, 1.2, 1, 1, 1, 1.3],
+    weeklyMultipliers: [],
+  },
+};
+
+describe('weeks and months', () => {
+  it('puts each week in the month holding its middle day', () => {
+    expect([0, 3, 4, 8, 51].map(monthOfWeek)).toEqual([0, 0, 1, 2, 11]);
+  });
+
+  it('uses a flat profile when seasonal demand is off', () => {
+    expect(weeklyDemandMultipliers(base).every((multiplier) => multiplier === 1)).toBe(true);
+    expect(weeklyDemandMultipliers(inputs)[30]).toBe(1.2);
+  });
+
+  it('scales the gap with demand', () => {
+    const metrics = calculateMetrics(inputs);
+    expect([0.9, 1, 1.2].map((multiplier) => seasonalHoursToCover(metrics, multiplier))).toEqual([0, 20, 104]);
+  });
+});
+
+describe('seasonalForecast', () => {
+  const forecast = seasonalForecast(inputs);
+  const month = (label: string) => forecast.months.find((candidate) => candidate.label === label)!;
+
+  it('compares the strategies that apply in some week', () => {
+    expect(forecast.strategies.map((option) => option.id)).toEqual(['overtime', 'hire', 'hybrid']);
+  });
+
+  it('picks overtime while it covers the gap and hiring when it does not', () => {
+    expect(forecast.seasons).toEqual([
+      { winner: null, months: [0, 1] },
+      { winner: 'overtime', months: [2, 3, 4, 5] },
+      { winner: 'hire', months: [6, 7] },
+      { winner: 'overtime', months: [8, 9, 10] },
+      { winner: 'hire', months: [11] },
+    ]);
+    expect(month('Jul').costs.overtime).toMatchObject({ cost: 7500, uncoveredHours: 216 });
+  });
+
+  it('prices weeks a strategy skips as overtime only instead of dropping the year', () => {
+    // Overtime alone covers March, so the hybrid has nothing to hire for
+    expect(month('Mar').costs.hybrid).toEqual({ cost: 3750, uncoveredHours: 0, fallbackWeeks: 5, missingWeeks: 0 });
+    expect(forecast.totals.hybrid).toEqual({ cost: 79125, uncoveredHours: 0, fallbackWeeks: 31, missingWeeks: 0 });
+  });
+
+  it('totals the months into the year', () => {
+    const monthly = forecast.months.reduce((sum, candidate) => sum + (candidate.costs.hire?.cost ?? 0), 0);
+    expect(forecast.totals.hire?.cost).toBe(monthly);
+    expect(forecast.months.reduce((sum, candidate) => sum + candidate.weeks, 0)).toBe(52);
+  });
+
+  it('prices the weeks a strategy skips as its related strategy', () => {
+    // 10 workers going from 40 to 35 hours, 5% busier in December: a 70-hour
+    // gap that two full-time hires cover exactly, leaving no part-timer to hire
+    const december = seasonalForecast({
+      workerGroups: [
+        { role: 'Worker', headcount: 10, hourlyRate: 25, currentWeekHours: 40, targetWeekHours: 35, maxExtraHours: 5 },
+      ],
+      partTimeHiring: { enabled: true, minShiftHours: 8 },
+      seasonalDemand: {
+        enabled: true,
+        granularity: 'monthly',
+        monthlyMultipliers: [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1.05],
+        weeklyMultipliers: [],
+      },
+    });
+    const dec = december.months.find((candidate) => candidate.label === 'Dec')!;
+
+    expect(dec.hoursToCover).toBe(280);
+    expect(dec.costs.mixedHire).toEqual({ cost: 7000, uncoveredHours: 0, fallbackWeeks: 4, missingWeeks: 0 });
+  });
+});
@@ -0,0 +1,222 @@
+import { budgetMetrics } from './budget';
+import { round2 } from './cost';
+import { calculateMetrics, roundHours } from './metrics';
+import { strategyOptions } from './strategies';
+import { CalculatorInputs, CalculatorMetrics, ProposalStrategy } from './types';
+
+export const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+export const WEEKS_PER_YEAR = 52;
+
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// The related strategy that prices the weeks a strategy doesn't apply
+// to, e.g. a gap of whole full-time hires for the part-time mix. Any
+// other strategy falls back to overtime.
+const FALLBACK_STRATEGIES: Record<string, string> = {
+  mixedHire: 'hire',
+  partTimeHybrid: 'hybrid',
+  hybrid: 'overtime',
+};
+
+// Loaded cost of a strategy over some weeks, and the hours it left
+// uncovered. Weeks the strategy doesn't apply to are priced by its
+// related strategy (fallbackWeeks), or left out when none applies
+// (missingWeeks).
+export interface ForecastCost {
+  cost: number;
+  uncoveredHours: number;
+  fallbackWeeks: number;
+  missingWeeks: number;
+}
+
+// One month of the forecast. costs is keyed by strategy id, null where
+// the strategy applies in none of the month's weeks; the winner misses
+// the fewest weeks, covers the most hours, then costs least.
+export interface ForecastMonth {
+  month: number;
+  label: string;
+  weeks: number;
+  hoursToCover: number;
+  costs: Record<string, ForecastCost | null>;
+  winner: string | null;
+}
+
+// A run of consecutive months with the same winner
+export interface ForecastSeason {
+  winner: string | null;
+  months: number[];
+}
+
+export interface SeasonalForecast {
+  strategies: { id: string; label: string }[];
+  months: ForecastMonth[];
+  totals: Record<string, ForecastCost | null>;
+  seasons: ForecastSeason[];
+}
+
+// Month (0-11) of week `week` (0-51), by the day in the middle of it
+export function monthOfWeek(week: number): number {
+  let day = week * 7 + 3;
+  let month = 0;
+  while (month < 11 && day >= DAYS_IN_MONTH[month]) {
+    day -= DAYS_IN_MONTH[month];
+    month++;
+  }
+  return month;
+}
+
+// Demand multiplier for each week of the year
+export function weeklyDemandMultipliers(inputs: CalculatorInputs): number[] {
+  const seasonal = inputs.seasonalDemand;
+  return Array.from({ length: WEEKS_PER_YEAR }, (_, week) => {
+    if (!seasonal?.enabled) {
+      return 1;
+    }
+    return (
+      (seasonal.granularity === 'weekly'
+        ? seasonal.weeklyMultipliers[week]
+        : seasonal.monthlyMultipliers[monthOfWeek(week)]) ?? 1
+    );
+  });
+}
+
+// Hours to cover in a week whose demand is `multiplier` times the
+// entered demand. Absence grosses it up as usual; the planned week's
+// holidays are left out.
+export function seasonalHoursToCover(metrics: CalculatorMetrics, multiplier: number): number {
+  const workedHours = metrics.totalRequiredHours - metrics.absenceHours;
+  const scheduledHours = metrics.totalRequiredHours - (metrics.totalHoursToCover - metrics.holidayHours);
+  return roundHours(Math.max(0, (workedHours * multiplier) / metrics.availability - scheduledHours));
+}
+
+// A strategy's weekly loaded cost and uncovered hours for a gap, or null
+// when it doesn't apply
+function weekCost(
+  strategy: ProposalStrategy,
+  inputs: CalculatorInputs,
+  metrics: CalculatorMetrics,
+  hours: number
+): ForecastCost | null {
+  if (hours <= 0) {
+    return { cost: 0, uncoveredHours: 0, fallbackWeeks: 0, missingWeeks: 0 };
+  }
+
+  const result = strategy(inputs, budgetMetrics(metrics, hours));
+  const proposal = Array.isArray(result) ? result[0] : result;
+  if (!proposal || (inputs.complianceMode === 'reject' && proposal.complianceIssues?.length)) {
+    return null;
+  }
+  return { cost: proposal.loadedCost, uncoveredHours: proposal.uncoveredHours, fallbackWeeks: 0, missingWeeks: 0 };
+}
+
+// Totals over some weeks, counting those without a cost as missing, or
+// null when none had one
+function sumCosts(costs: (ForecastCost | null)[]): ForecastCost | null {
+  const priced = costs.filter((cost): cost is ForecastCost => cost !== null);
+  if (priced.length === 0) {
+    return null;
+  }
+
+  const total = (key: keyof ForecastCost) => priced.reduce((sum, cost) => sum + cost[key], 0);
+  return {
+    cost: round2(total('cost')),
+    uncoveredHours: roundHours(total('uncoveredHours')),
+    fallbackWeeks: total('fallbackWeeks'),
+    missingWeeks: costs.length - priced.length,
+  };
+}
+
+// Price every week of a 52-week year with each strategy, at that week's
+// seasonal demand, and roll the weeks up into months. Each week is
+// priced as if the strategy were chosen for it alone, without any
+// weekly budget. The optimal mix is left out so the fixed strategies
+// can be compared season by season.
+export function seasonalForecast(inputs: CalculatorInputs): SeasonalForecast {
+  const forecastInputs: CalculatorInputs = { ...inputs, weeklyBudget: undefined };
+  const metrics = calculateMetrics(forecastInputs);
+  const options = strategyOptions.filter((option) => option.id !== 'optimal');
+  const weeklyHours = weeklyDemandMultipliers(inputs).map((multiplier) => seasonalHoursToCover(metrics, multiplier));
+
+  // Weeks often share a multiplier, so each gap is priced once
+  const priced = new Map<number, Record<string, ForecastCost | null>>();
+  const costsFor = (hours: number) => {
+    let costs = priced.get(hours);
+    if (!costs) {
+      costs = Object.fromEntries(
+        options.map((option) => [option.id, weekCost(option.strategy, forecastInputs, metrics, hours)])
+      );
+      priced.set(hours, costs);
+    }
+    return costs;
+  };
+  const weeks = weeklyHours.map((hours) => ({ hours, costs: costsFor(hours) }));
+
+  // Strategies that never apply when there's a gap are dropped
+  const strategies = options.filter((option) =>
+    weeks.some((week) => week.hours > 0 && week.costs[option.id] !== null)
+  );
+
+  // A week a strategy doesn't apply to, e.g. one overtime alone covers
+  // for a hybrid, costs what the first related strategy that applies
+  // would
+  const costIn = (week: (typeof weeks)[number], id: string): ForecastCost | null => {
+    const own = week.costs[id];
+    if (own) {
+      return own;
+    }
+    let fallback = id;
+    while (fallback !== 'overtime') {
+      fallback = FALLBACK_STRATEGIES[fallback] ?? 'overtime';
+      const cost = week.costs[fallback];
+      if (cost) {
+        return { ...cost, fallbackWeeks: 1 };
+      }
+    }
+    return null;
+  };
+
+  const months: ForecastMonth[] = MONTHS.map((label, month) => {
+    const monthWeeks = weeks.filter((_, week) => monthOfWeek(week) === month);
+    const costs = Object.fromEntries(
+      strategies.map((option) => [option.id, sumCosts(monthWeeks.map((week) => costIn(week, option.id)))])
+    );
+    const hoursToCover = roundHours(monthWeeks.reduce((sum, week) => sum + week.hours, 0));
+    const ranked = strategies
+      .map((option) => ({ id: option.id, total: costs[option.id] }))
+      .filter((entry): entry is { id: string; total: ForecastCost } => entry.total !== null)
+      .sort(
+        (a, b) =>
+          a.total.missingWeeks - b.total.missingWeeks ||
+          a.total.uncoveredHours - b.total.uncoveredHours ||
+          a.total.cost - b.total.cost
+      );
+
+    return {
+      month,
+      label,
+      weeks: monthWeeks.length,
+      hoursToCover,
+      costs,
+      winner: hoursToCover > 0 ? (ranked[0]?.id ?? null) : null,
+    };
+  });
+
+  const seasons: ForecastSeason[] = [];
+  months.forEach((month) => {
+    const last = seasons[seasons.length - 1];
+    if (last && last.winner === month.winner) {
+      last.months.push(month.month);
+    } else {
+      seasons.push({ winner: month.winner, months: [month.month] });
+    }
+  });
+
+  return {
+    strategies: strategies.map(({ id, label }) => ({ id, label })),
+    months,
+    totals: Object.fromEntries(
+      strategies.map((option) => [option.id, sumCosts(weeks.map((week) => costIn(week, option.id)))])
+    ),
+    seasons,
+  };
+}
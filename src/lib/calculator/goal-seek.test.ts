@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { getFormValue, goalSeek, goalSeekVariables, GoalSeekVariable, withFormValue } from './goal-seek';
+import { defaultCalculatorValues } from './schema';
+
+// The default form: ten workers on 40 hours at $25 aiming for 50, 5 hours of overtime each
+const data = defaultCalculatorValues;
+
+function variable(path: string): GoalSeekVariable {
+  const found = goalSeekVariables(data).find((candidate) => candidate.path === path);
+  if (!found) {
+    throw new Error(`No goal-seek variable at ${path}`);
+  }
+  return found;
+}
+
+describe('goalSeekVariables', () => {
+  it('labels and bounds period-based fields by their pay period', () => {
+    const monthly = goalSeekVariables({ ...data, weeklyBudget: { ...data.weeklyBudget, period: 'monthly' } });
+
+    expect(variable('weeklyBudget.maxSpend')).toMatchObject({ label: 'Weekly budget', max: 100000000 });
+    expect(monthly.find((candidate) => candidate.path === 'weeklyBudget.maxSpend')).toMatchObject({
+      label: 'Monthly budget',
+      max: 434812500,
+    });
+  });
+});
+
+describe('form values', () => {
+  it('reads and writes fields by path without changing the original', () => {
+    const changed = withFormValue(data, 'workerGroups.0.hourlyRate', 30);
+
+    expect(getFormValue(changed, 'workerGroups.0.hourlyRate')).toBe(30);
+    expect(getFormValue(data, 'workerGroups.0.hourlyRate')).toBe(25);
+  });
+});
+
+describe('goalSeek', () => {
+  it('finds the range of values that keep a cost at most a target', () => {
+    const result = goalSeek(data, variable('workerGroups.0.hourlyRate'), {
+      strategy: 'hire',
+      metric: 'loadedCost',
+      comparison: 'atMost',
+      value: 1000,
+    });
+
+    // 100 hours hired: $10 an hour or less
+    expect(result).toMatchObject({ feasible: true, low: 0.01, high: 10 });
+    expect(result.message).toBe('Hire full-time loaded cost at most $1,000.00 with Worker hourly rate up to $10.00 (now $25.00)');
+  });
+
+  it('solves to the cent for a cost equal to a target', () => {
+    const result = goalSeek(data, variable('workerGroups.0.hourlyRate'), {
+      strategy: 'hire',
+      metric: 'costImpact',
+      comparison: 'equals',
+      value: 1500,
+    });
+
+    expect(result).toMatchObject({ feasible: true, value: 15, achieved: 1500 });
+  });
+
+  it('finds the overtime cap that covers every hour', () => {
+    const result = goalSeek(data, variable('workerGroups.0.maxExtraHours'), {
+      strategy: 'overtime',
+      metric: 'uncoveredHours',
+      comparison: 'atMost',
+      value: 0,
+    });
+
+    expect(result).toMatchObject({ feasible: true, low: 10, high: 50 });
+  });
+
+  it('reports the closest value when nothing meets the target', () => {
+    const result = goalSeek(data, variable('workerGroups.0.headcount'), {
+      strategy: 'overtime',
+      metric: 'uncoveredHours',
+      comparison: 'atMost',
+      value: 0,
+    });
+
+    expect(result).toMatchObject({ feasible: false, value: 1, achieved: 5 });
+    expect(result.message).toContain('The closest is 5h at 1');
+  });
+
+  it('needs a known strategy', () => {
+    const result = goalSeek(data, variable('workerGroups.0.hourlyRate'), {
+      strategy: 'unknown',
+      metric: 'loadedCost',
+      comparison: 'atMost',
+      value: 0,
+    });
+
+    expect(result).toEqual({ feasible: false, message: 'Choose a proposal to solve for' });
+  });
+});
@@ -0,0 +1,288 @@
+import { calculateProposals } from './engine';
+import { fromWeekly, payPeriods } from './pay-period';
+import { CalculatorFormData, toCalculatorInputs } from './schema';
+import { strategyOptions } from './strategies';
+import { Proposal } from './types';
+
+export type GoalSeekUnit = 'count' | 'currency' | 'hours' | 'percent' | 'multiplier';
+
+// A form field that can be solved for, by its path in the form data
+export interface GoalSeekVariable {
+  path: string;
+  label: string;
+  min: number;
+  max: number;
+  integer: boolean;
+  unit: GoalSeekUnit;
+}
+
+export type GoalSeekMetric = 'loadedCost' | 'costImpact' | 'uncoveredHours' | 'idleHours';
+export type GoalSeekComparison = 'atMost' | 'atLeast' | 'equals';
+
+// e.g. the hybrid proposal's loaded cost at most $5,000
+export interface GoalSeekTarget {
+  strategy: string;
+  metric: GoalSeekMetric;
+  comparison: GoalSeekComparison;
+  value: number;
+}
+
+// For at most / at least targets, low and high bound the values that
+// meet it; for equals, value is where the metric reaches the target
+export interface GoalSeekResult {
+  feasible: boolean;
+  value?: number;
+  low?: number;
+  high?: number;
+  achieved?: number;
+  message: string;
+}
+
+// Points sampled across a variable's range before bisecting
+const GRID_POINTS = 32;
+
+export const goalSeekMetrics: Record<GoalSeekMetric, { label: string; unit: GoalSeekUnit }> = {
+  loadedCost: { label: 'loaded cost', unit: 'currency' },
+  costImpact: { label: 'base cost', unit: 'currency' },
+  uncoveredHours: { label: 'uncovered hours', unit: 'hours' },
+  idleHours: { label: 'paid idle hours', unit: 'hours' },
+};
+
+const comparisonLabels: Record<GoalSeekComparison, string> = {
+  atMost: 'at most',
+  atLeast: 'at least',
+  equals: 'equal to',
+};
+
+// Fields that can be solved for, within their validation bounds
+export function goalSeekVariables(data: CalculatorFormData): GoalSeekVariable[] {
+  const groupFields = data.workerGroups.flatMap((group, index) => [
+    { path: `workerGroups.${index}.headcount`, label: `${group.role} headcount`, min: 1, max: 10000, integer: true, unit: 'count' as const },
+    { path: `workerGroups.${index}.hourlyRate`, label: `${group.role} hourly rate`, min: 0.01, max: 1000, integer: false, unit: 'currency' as const },
+    { path: `workerGroups.${index}.currentWeekHours`, label: `${group.role} current hours`, min: 1, max: 168, integer: false, unit: 'hours' as const },
+    { path: `workerGroups.${index}.targetWeekHours`, label: `${group.role} target hours`, min: 1, max: 168, integer: false, unit: 'hours' as const },
+    { path: `workerGroups.${index}.maxExtraHours`, label: `${group.role} overtime cap`, min: 0, max: 50, integer: false, unit: 'hours' as const },
+  ]);
+
+  const benefitsPeriod = data.laborBurden.benefitsPeriod;
+  const budgetPeriod = data.weeklyBudget.period;
+
+  return [
+    ...groupFields,
+    { path: 'overtimeRule.tiers.0.multiplier', label: 'Overtime multiplier', min: 1, max: 5, integer: false, unit: 'multiplier' },
+    { path: 'agencyStaffing.markupPercent', label: 'Agency markup', min: 0, max: 300, integer: false, unit: 'percent' },
+    { path: 'laborBurden.employerTaxPercent', label: 'Employer payroll tax', min: 0, max: 100, integer: false, unit: 'percent' },
+    {
+      path: 'laborBurden.benefitsPerHead',
+      label: `${payPeriods[benefitsPeriod].label} benefits per hire`,
+      min: 0,
+      max: fromWeekly(10000, benefitsPeriod),
+      integer: false,
+      unit: 'currency',
+    },
+    { path: 'laborBurden.hiringCostPerHead', label: 'Hiring cost per head', min: 0, max: 1000000, integer: false, unit: 'currency' },
+    { path: 'absenceRates.absenceRatePercent', label: 'Absence rate', min: 0, max: 90, integer: false, unit: 'percent' },
+    {
+      path: 'weeklyBudget.maxSpend',
+      label: `${payPeriods[budgetPeriod].label} budget`,
+      min: 0,
+      max: fromWeekly(100000000, budgetPeriod),
+      integer: false,
+      unit: 'currency',
+    },
+  ];
+}
+
+export function formatGoalSeekValue(value: number, unit: GoalSeekUnit): string {
+  switch (unit) {
+    case 'currency':
+      return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case 'hours':
+      return `${value}h`;
+    case 'percent':
+      return `${value}%`;
+    case 'multiplier':
+      return `${value}×`;
+    default:
+      return `${value}`;
+  }
+}
+
+export function getFormValue(data: CalculatorFormData, path: string): number {
+  return path.split('.').reduce<unknown>((node, key) => (node as Record<string, unknown>)[key], data) as number;
+}
+
+// A copy of the form data with one field changed
+export function withFormValue(data: CalculatorFormData, path: string, value: number): CalculatorFormData {
+  const copy = structuredClone(data);
+  const keys = path.split('.');
+  const parent = keys
+    .slice(0, -1)
+    .reduce<Record<string, unknown>>((node, key) => node[key] as Record<string, unknown>, copy as unknown as Record<string, unknown>);
+  parent[keys[keys.length - 1]] = value;
+  return copy;
+}
+
+// Solve for one field so a strategy's proposal meets a target. The range
+// is sampled on a grid, then the edges of the stretch of values that
+// meet the target (the one nearest the current value) are found by
+// bisection, to whole numbers or cents.
+export function goalSeek(data: CalculatorFormData, variable: GoalSeekVariable, target: GoalSeekTarget): GoalSeekResult {
+  const strategy = strategyOptions.find((candidate) => candidate.id === target.strategy);
+  if (!strategy) {
+    return { feasible: false, message: 'Choose a proposal to solve for' };
+  }
+
+  const current = getFormValue(data, variable.path);
+  const metric = goalSeekMetrics[target.metric];
+  const format = (value: number) => formatGoalSeekValue(value, variable.unit);
+  const formatMetric = (value: number) => formatGoalSeekValue(value, metric.unit);
+  const goal = `${strategy.label} ${metric.label} ${comparisonLabels[target.comparison]} ${formatMetric(target.value)}`;
+
+  const evaluate = (value: number): number | null => {
+    const proposal: Proposal | undefined = calculateProposals(toCalculatorInputs(withFormValue(data, variable.path, value)), [
+      strategy.strategy,
+    ])[0];
+    return proposal ? (proposal[target.metric] ?? 0) : null;
+  };
+  const meets = (achieved: number | null) =>
+    achieved !== null &&
+    (target.comparison === 'atMost'
+      ? achieved <= target.value + 1e-9
+      : target.comparison === 'atLeast'
+      ? achieved >= target.value - 1e-9
+      : Math.abs(achieved - target.value) < 0.005);
+  const midpoint = (a: number, b: number) =>
+    variable.integer ? Math.floor((a + b) / 2) : Math.round(((a + b) / 2) * 100) / 100;
+  const precision = variable.integer ? 1 : 0.01;
+
+  const grid = [
+    ...new Set(
+      Array.from({ length: GRID_POINTS + 1 }, (_, index) => {
+        const value = variable.min + ((variable.max - variable.min) * index) / GRID_POINTS;
+        return variable.integer ? Math.round(value) : Math.round(value * 100) / 100;
+      })
+    ),
+  ];
+  const samples = grid.map((value) => ({ value, achieved: evaluate(value) }));
+  const distance = (value: number) => Math.abs(value - current);
+
+  if (target.comparison === 'equals') {
+    // Adjacent samples either side of the target, nearest the current value first
+    const crossings = samples
+      .slice(1)
+      .map((sample, index) => ({ below: samples[index], above: sample }))
+      .filter(
+        ({ below, above }) =>
+          below.achieved !== null &&
+          above.achieved !== null &&
+          (below.achieved - target.value) * (above.achieved - target.value) <= 0
+      )
+      .sort((a, b) => distance(a.below.value) - distance(b.below.value));
+
+    const crossing = crossings[0];
+    if (crossing) {
+      let low = crossing.below;
+      let high = crossing.above;
+      const lowSign = Math.sign((low.achieved ?? 0) - target.value);
+      while (high.value - low.value > precision && !meets(low.achieved) && !meets(high.achieved)) {
+        const value = midpoint(low.value, high.value);
+        const probe = { value, achieved: evaluate(value) };
+        if (probe.achieved === null) {
+          break;
+        }
+        if (Math.sign(probe.achieved - target.value) === lowSign) {
+          low = probe;
+        } else {
+          high = probe;
+        }
+      }
+
+      const best = [low, high].sort(
+        (a, b) => Math.abs((a.achieved ?? 0) - target.value) - Math.abs((b.achieved ?? 0) - target.value)
+      )[0];
+      const achieved = best.achieved ?? 0;
+      return {
+        feasible: true,
+        value: best.value,
+        achieved,
+        message:
+          `${strategy.label} ${metric.label} reaches ${formatMetric(achieved)} at ${variable.label} ${format(best.value)}` +
+          (meets(achieved) ? '' : `, the closest a ${variable.integer ? 'whole number' : 'value'} gets to ${formatMetric(target.value)}`) +
+          ` (now ${format(current)})`,
+      };
+    }
+  } else {
+    // Stretches of consecutive samples meeting the target
+    const runs: { start: number; end: number }[] = [];
+    samples.forEach((sample, index) => {
+      if (!meets(sample.achieved)) {
+        return;
+      }
+      const last = runs[runs.length - 1];
+      if (last && last.end === index - 1) {
+        last.end = index;
+      } else {
+        runs.push({ start: index, end: index });
+      }
+    });
+
+    const runDistance = (run: { start: number; end: number }) =>
+      current >= grid[run.start] && current <= grid[run.end]
+        ? 0
+        : Math.min(distance(grid[run.start]), distance(grid[run.end]));
+    const run = [...runs].sort((a, b) => runDistance(a) - runDistance(b))[0];
+
+    if (run) {
+      // Move a passing value toward a failing one until they're adjacent
+      const edge = (passing: number, failing: number) => {
+        while (Math.abs(failing - passing) > precision) {
+          const value = midpoint(passing, failing);
+          if (value === passing || value === failing) {
+            break;
+          }
+          if (meets(evaluate(value))) {
+            passing = value;
+          } else {
+            failing = value;
+          }
+        }
+        return passing;
+      };
+      const low = run.start > 0 ? edge(grid[run.start], grid[run.start - 1]) : grid[run.start];
+      const high = run.end < grid.length - 1 ? edge(grid[run.end], grid[run.end + 1]) : grid[run.end];
+
+      const range =
+        low === variable.min && high === variable.max
+          ? `any ${variable.label} from ${format(variable.min)} to ${format(variable.max)}`
+          : low === variable.min
+          ? `${variable.label} up to ${format(high)}`
+          : high === variable.max
+          ? `${variable.label} of ${format(low)} or more`
+          : `${variable.label} from ${format(low)} to ${format(high)}`;
+
+      return {
+        feasible: true,
+        low,
+        high,
+        message: `${goal} with ${range} (now ${format(current)})`,
+      };
+    }
+  }
+
+  // Nothing meets the target; report the closest sample
+  const closest = samples
+    .filter((sample): sample is { value: number; achieved: number } => sample.achieved !== null)
+    .sort((a, b) => Math.abs(a.achieved - target.value) - Math.abs(b.achieved - target.value))[0];
+
+  return {
+    feasible: false,
+    value: closest?.value,
+    achieved: closest?.achieved,
+    message:
+      `No ${variable.label} between ${format(variable.min)} and ${format(variable.max)} gets ${goal}` +
+      (closest
+        ? `. The closest is ${formatMetric(closest.achieved)} at ${format(closest.value)}`
+        : `. ${strategy.label} doesn't apply anywhere in that range`),
+  };
+}
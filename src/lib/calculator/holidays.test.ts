@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, calendarLastYear, holidayNote, holidayWeek, isIsoDate } from './holidays';
+import { CalculatorInputs, HolidayCalendar } from './types';
+
+const calendar: HolidayCalendar = {
+  enabled: true,
+  calendar: 'custom',
+  customHolidays: [
+    { date: '2026-12-25', name: 'Christmas Day' },
+    { date: '2026-12-25', name: 'Christmas Day' },
+    // A Saturday, outside the five-day working week
+    { date: '2026-12-26', name: 'Boxing Day' },
+  ],
+  weekStart: '2026-12-21',
+  premiumMultiplier: 2,
+  takenOffPercent: 50,
+};
+
+// Ten workers on 40 hours at $25: 80 hours a day over five days
+const inputs: CalculatorInputs = {
+  workerGroups: [
+    { role: 'Worker', headcount: 10, hourlyRate: 25, currentWeekHours: 40, targetWeekHours: 40, maxExtraHours: 5 },
+  ],
+  holidayCalendar: calendar,
+};
+
+describe('dates', () => {
+  it('adds days across month and year ends', () => {
+    expect(addDays('2026-12-30', 3)).toBe('2027-01-02');
+    expect(addDays('2028-03-01', -1)).toBe('2028-02-29');
+  });
+
+  it('accepts only real YYYY-MM-DD dates', () => {
+    expect(isIsoDate('2026-02-28')).toBe(true);
+    expect(isIsoDate('2026-02-30')).toBe(false);
+    expect(isIsoDate('26-2-28')).toBe(false);
+  });
+});
+
+describe('calendarLastYear', () => {
+  it('finds the last year a calendar lists holidays for', () => {
+    expect(calendarLastYear(calendar)).toBe(2026);
+    expect(calendarLastYear({ ...calendar, calendar: 'us' })).toBe(2028);
+    expect(calendarLastYear({ ...calendar, customHolidays: [] })).toBeNull();
+  });
+});
+
+describe('holidayWeek', () => {
+  it('prices each holiday on a working day once', () => {
+    expect(holidayWeek(inputs)).toEqual({
+      holidays: [{ date: '2026-12-25', name: 'Christmas Day' }],
+      hours: 40,
+      premiumHours: 80,
+      premiumCost: 2000,
+    });
+  });
+
+  it('looks at later weeks of the plan', () => {
+    expect(holidayWeek(inputs, 1).holidays).toEqual([]);
+    expect(holidayWeek(inputs, -1).premiumCost).toBe(0);
+  });
+
+  it('includes the shift differentials staff earn that day', () => {
+    const withDifferential: CalculatorInputs = {
+      ...inputs,
+      shiftTemplates: [
+        { name: 'Day', start: '09:00', end: '17:00', breakMinutes: 0, requiredHeadcount: 10, days: [true, true, true, true, true, false, false] },
+      ],
+      shiftDifferentials: [
+        { name: 'Friday', days: [false, false, false, false, true, false, false], start: '00:00', end: '00:00', kind: 'flat', amount: 5 },
+      ],
+    };
+
+    // 80 hours at $30 rather than $25
+    expect(holidayWeek(withDifferential).premiumCost).toBe(2400);
+  });
+
+  it('costs nothing when the calendar is off or the week start is not a date', () => {
+    const empty = { holidays: [], hours: 0, premiumHours: 0, premiumCost: 0 };
+    expect(holidayWeek({ ...inputs, holidayCalendar: { ...calendar, enabled: false } })).toEqual(empty);
+    expect(holidayWeek({ ...inputs, holidayCalendar: { ...calendar, weekStart: '2026-13-01' } })).toEqual(empty);
+  });
+});
+
+describe('holidayNote', () => {
+  it('names the holidays and their premium', () => {
+    expect(holidayNote(inputs)).toBe('. Includes $2,000 holiday premium for 80h on Christmas Day');
+  });
+});
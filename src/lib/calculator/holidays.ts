@@ -0,0 +1,102 @@
+import { round2 } from './cost';
+import { dayRate } from './differentials';
+import { DEFAULT_OVERTIME_RULE } from './overtime';
+import { CalculatorInputs, Holiday, HolidayCalendar, HolidayCalendarId, HolidaySet } from './types';
+import de from './holidays/de.json';
+import fr from './holidays/fr.json';
+import gb from './holidays/gb.json';
+import us from './holidays/us.json';
+
+// Built-in calendars, bundled with the app rather than looked up online
+export const holidaySets: Record<HolidayCalendarId, HolidaySet> = {
+  us: us as HolidaySet,
+  gb: gb as HolidaySet,
+  de: de as HolidaySet,
+  fr: fr as HolidaySet,
+};
+
+// Holidays falling on workdays of one planned week, and what they cost
+export interface HolidayWeek {
+  holidays: Holiday[];
+  // Team hours taken off, to be covered by proposals
+  hours: number;
+  // Scheduled hours paid at the holiday premium
+  premiumHours: number;
+  // Wages on top of the usual rate for those hours
+  premiumCost: number;
+}
+
+// Calendar date `days` after a "YYYY-MM-DD" date
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+export function isIsoDate(date: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && addDays(date, 0) === date;
+}
+
+export function calendarHolidays(calendar: HolidayCalendar): Holiday[] {
+  return calendar.calendar === 'custom' ? calendar.customHolidays : holidaySets[calendar.calendar].holidays;
+}
+
+// Last year the calendar lists holidays for, or null when it lists none
+export function calendarLastYear(calendar: HolidayCalendar): number | null {
+  const years = calendarHolidays(calendar).map((holiday) => Number(holiday.date.slice(0, 4)));
+  return years.length > 0 ? Math.max(...years) : null;
+}
+
+// Holidays in the given week of the plan (0 = the week starting on
+// weekStart) that land on one of the first daysPerWeek days, the days
+// the team works
+export function holidayWeek(inputs: CalculatorInputs, week = 0): HolidayWeek {
+  const calendar = inputs.holidayCalendar;
+  if (!calendar?.enabled || !isIsoDate(calendar.weekStart)) {
+    return { holidays: [], hours: 0, premiumHours: 0, premiumCost: 0 };
+  }
+
+  const daysPerWeek = (inputs.overtimeRule ?? DEFAULT_OVERTIME_RULE).daysPerWeek;
+  const firstDay = addDays(calendar.weekStart, week * 7);
+  const lastDay = addDays(firstDay, daysPerWeek - 1);
+  const dates = new Set<string>();
+  const holidays = calendarHolidays(calendar).filter((holiday) => {
+    // Count a date once even if the calendar lists it twice
+    if (holiday.date < firstDay || holiday.date > lastDay || dates.has(holiday.date)) {
+      return false;
+    }
+    dates.add(holiday.date);
+    return true;
+  });
+
+  // Every hour scheduled on a holiday earns the premium, whoever works it,
+  // on top of that weekday's pay with its shift differentials
+  const weekdays = [...dates].map((date) => (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7);
+  let premiumHours = 0;
+  let premiumCost = 0;
+  inputs.workerGroups.forEach((group) => {
+    const hoursPerDay = (group.headcount * group.currentWeekHours) / daysPerWeek;
+    premiumHours += hoursPerDay * dates.size;
+    weekdays.forEach((day) => {
+      premiumCost += hoursPerDay * dayRate(group, inputs, day) * (calendar.premiumMultiplier - 1);
+    });
+  });
+
+  return {
+    holidays,
+    hours: round2(premiumHours * (calendar.takenOffPercent / 100)),
+    premiumHours: round2(premiumHours),
+    premiumCost: round2(premiumCost),
+  };
+}
+
+// e.g. ". Includes $1,500 holiday premium for 80h on Christmas Day"
+export function holidayNote(inputs: CalculatorInputs): string {
+  const week = holidayWeek(inputs);
+  if (week.premiumCost <= 0) {
+    return '';
+  }
+
+  return `. Includes $${week.premiumCost.toLocaleString()} holiday premium for ${week.premiumHours}h on ${week.holidays
+    .map((holiday) => holiday.name)
+    .join(', ')}`;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { calculateProposals } from './engine';
+import { rampProductivity } from './horizon';
+import { CalculatorInputs, Proposal } from './types';
+
+// Ten workers going from 40 to 35 hours at $25, each able to add 5 hours of overtime
+function team(overrides: Partial<CalculatorInputs> = {}): CalculatorInputs {
+  return {
+    workerGroups: [
+      { role: 'Worker', headcount: 10, hourlyRate: 25, currentWeekHours: 40, targetWeekHours: 35, maxExtraHours: 5 },
+    ],
+    planningHorizon: { enabled: true, weeks: 4, hiringLeadWeeks: 1, rampWeeks: 0, startingProductivityPercent: 100 },
+    ...overrides,
+  };
+}
+
+function byId(proposals: Proposal[], id: string): Proposal {
+  const proposal = proposals.find((item) => item.id === id);
+  if (!proposal) {
+    throw new Error(`No ${id} proposal among ${proposals.map((item) => item.id).join(', ')}`);
+  }
+  return proposal;
+}
+
+describe('rampProductivity', () => {
+  it('starts after the lead time and ramps up to full productivity', () => {
+    const horizon = { enabled: true, weeks: 8, hiringLeadWeeks: 2, rampWeeks: 4, startingProductivityPercent: 50 };
+    expect([1, 2, 3, 4, 5, 7, 8].map((week) => rampProductivity(week, horizon))).toEqual([0, 0, 0.5, 0.625, 0.75, 1, 1]);
+  });
+
+  it('is fully productive from the start date without a ramp', () => {
+    const horizon = { enabled: true, weeks: 4, hiringLeadWeeks: 1, rampWeeks: 0, startingProductivityPercent: 50 };
+    expect([1, 2].map((week) => rampProductivity(week, horizon))).toEqual([0, 1]);
+  });
+});
+
+describe('buildSchedule', () => {
+  it('brings new hires in after the lead time at their ramped productivity', () => {
+    const proposals = calculateProposals(
+      team({ planningHorizon: { enabled: true, weeks: 4, hiringLeadWeeks: 1, rampWeeks: 2, startingProductivityPercent: 50 } })
+    );
+
+    // Two 35-hour hires, paid $1,750 a week once they start
+    expect(byId(proposals, 'hire').schedule).toMatchObject([
+      { week: 1, newHireHours: 0, uncoveredHours: 50, cost: 0, cumulativeCost: 0 },
+      { week: 2, newHireHours: 35, uncoveredHours: 15, cost: 1750, cumulativeCost: 1750 },
+      { week: 3, newHireHours: 50, uncoveredHours: 0, cost: 1750, cumulativeCost: 3500 },
+      { week: 4, newHireHours: 50, uncoveredHours: 0, cost: 1750, cumulativeCost: 5250 },
+    ]);
+  });
+
+  it('replays the overtime a proposal planned each week', () => {
+    const overtime = byId(calculateProposals(team()), 'overtime');
+
+    expect(overtime.schedule?.map((week) => [week.overtimeHours, week.cost])).toEqual([
+      [50, 1875],
+      [50, 1875],
+      [50, 1875],
+      [50, 1875],
+    ]);
+  });
+
+  it('keeps every week within a budget-trimmed proposal', () => {
+    const proposals = calculateProposals(team({ weeklyBudget: { enabled: true, maxWeeklySpend: 1000 } }));
+
+    // 26 overtime hours at $37.50 fit the budget, so the schedule never adds more
+    expect(byId(proposals, 'overtime').schedule?.map((week) => [week.overtimeHours, week.uncoveredHours, week.cost])).toEqual([
+      [26, 24, 975],
+      [26, 24, 975],
+      [26, 24, 975],
+      [26, 24, 975],
+    ]);
+    proposals.forEach((proposal) => {
+      expect(proposal.schedule?.every((week) => week.cost <= 1000)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { loadedCost } from './cost';
+import { holidayWeek } from './holidays';
+import { roundHours } from './metrics';
+import { CalculatorInputs, CalculatorMetrics, HorizonWeek, PlanningHorizon, ProposalMix } from './types';
+
+// Share of a new hire's hours that are productive in the given week
+// (1-based). Zero until they start after the lead time.
+export function rampProductivity(week: number, horizon: PlanningHorizon): number {
+  const weekOnJob = week - horizon.hiringLeadWeeks;
+  if (weekOnJob <= 0) {
+    return 0;
+  }
+  if (horizon.rampWeeks <= 0) {
+    return 1;
+  }
+
+  const start = horizon.startingProductivityPercent / 100;
+  return Math.min(1, start + ((1 - start) * (weekOnJob - 1)) / horizon.rampWeeks);
+}
+
+// Replay a proposal's levers week by week. Agency staff cover from the
+// first week, new hires from their start date at their ramped
+// productivity, and overtime bridges what's left up to the hours the
+// proposal planned per role, never more, so a budget-trimmed plan stays
+// within its budget. Each week's holidays replace the planned week's in
+// the hours to cover and add their premium.
+export function buildSchedule(
+  inputs: CalculatorInputs,
+  metrics: CalculatorMetrics,
+  mix: ProposalMix,
+  horizon: PlanningHorizon
+): HorizonWeek[] {
+  const { hire, agency } = mix;
+  const newHires = hire ? hire.workers + hire.partTimeWorkers : 0;
+  const schedule: HorizonWeek[] = [];
+  let cumulativeCost = 0;
+
+  for (let week = 1; week <= horizon.weeks; week++) {
+    const holidays = holidayWeek(inputs, week - 1);
+    let remaining = metrics.totalHoursToCover - metrics.holidayHours + holidays.hours;
+
+    const agencyHours = agency ? Math.min(remaining, agency.coveredHours) : 0;
+    remaining -= agencyHours;
+
+    const productivity = hire ? rampProductivity(week, horizon) : 0;
+    const newHireHours = hire ? Math.min(remaining, hire.hours * productivity) : 0;
+    remaining -= newHireHours;
+
+    let overtimeHours = 0;
+    let overtimeCost = 0;
+    mix.overtime.forEach((allocation) => {
+      const hours = Math.min(Math.max(0, remaining), allocation.hours);
+      overtimeHours += hours;
+      overtimeCost += allocation.hours > 0 ? (allocation.cost * hours) / allocation.hours : 0;
+      remaining -= hours;
+    });
+
+    const started = productivity > 0;
+    const wages = overtimeCost + (hire && started ? hire.cost : 0) + holidays.premiumCost;
+    const cost = loadedCost(wages, started ? newHires : 0, inputs.laborBurden) + (agency?.cost ?? 0);
+    cumulativeCost += cost;
+
+    schedule.push({
+      week,
+      holidays: holidays.holidays.map((holiday) => holiday.name),
+      overtimeHours: roundHours(overtimeHours),
+      newHireHours: roundHours(newHireHours),
+      agencyHours: roundHours(agencyHours),
+      uncoveredHours: roundHours(Math.max(0, remaining)),
+      cost: Math.round(cost * 100) / 100,
+      cumulativeCost: Math.round(cumulativeCost * 100) / 100,
+    });
+  }
+
+  return schedule;
+}
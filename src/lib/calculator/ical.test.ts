@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { IcsExportOptions, isValidTimeZone, nextMonday, rosterEvents, teamCalendar, zonedTimeToUtc } from './ical';
+import { RosterRow, ShiftTemplate } from './types';
+
+const templates: ShiftTemplate[] = [
+  { name: 'Early', start: '06:00', end: '14:30', breakMinutes: 30, requiredHeadcount: 1, days: Array(7).fill(true) },
+  { name: 'Night; late, long', start: '22:00', end: '06:00', breakMinutes: 0, requiredHeadcount: 1, days: Array(7).fill(true) },
+];
+
+const row: RosterRow = {
+  worker: { id: 'g0-1', name: 'Worker 1', role: 'Worker', kind: 'existing', contractHours: 16, maxHours: 24 },
+  shifts: [0, 0, 1, null, null, null, null],
+};
+
+const options: IcsExportOptions = {
+  weekStart: '2026-10-19',
+  weeks: 2,
+  timeZone: 'Europe/London',
+  stamp: new Date('2026-10-01T12:00:00Z'),
+};
+
+describe('zonedTimeToUtc', () => {
+  it('converts wall-clock times either side of a DST change', () => {
+    expect(zonedTimeToUtc(2026, 10, 24, 9 * 60, 'Europe/London').toISOString()).toBe('2026-10-24T08:00:00.000Z');
+    expect(zonedTimeToUtc(2026, 10, 26, 9 * 60, 'Europe/London').toISOString()).toBe('2026-10-26T09:00:00.000Z');
+  });
+
+  it('moves a skipped time forward and takes the first of a repeated one', () => {
+    expect(zonedTimeToUtc(2026, 3, 29, 90, 'Europe/London').toISOString()).toBe('2026-03-29T01:30:00.000Z');
+    expect(zonedTimeToUtc(2026, 10, 25, 90, 'Europe/London').toISOString()).toBe('2026-10-25T00:30:00.000Z');
+  });
+
+  it('runs times past midnight into the next day', () => {
+    expect(zonedTimeToUtc(2026, 10, 21, 30 * 60, 'America/New_York').toISOString()).toBe('2026-10-22T10:00:00.000Z');
+  });
+});
+
+describe('rosterEvents', () => {
+  it('dates each shift across the exported weeks', () => {
+    const events = rosterEvents([row], templates, options);
+
+    expect(events).toHaveLength(6);
+    expect(events.map((event) => event.start.toISOString())).toEqual([
+      '2026-10-19T05:00:00.000Z',
+      '2026-10-20T05:00:00.000Z',
+      '2026-10-21T21:00:00.000Z',
+      // The clocks go back on 25 October
+      '2026-10-26T06:00:00.000Z',
+      '2026-10-27T06:00:00.000Z',
+      '2026-10-28T22:00:00.000Z',
+    ]);
+  });
+
+  it('counts the hours past the contract as overtime, week by week', () => {
+    const events = rosterEvents([row], templates, options);
+    expect(events.map((event) => event.overtimeHours)).toEqual([0, 0, 8, 0, 0, 8]);
+  });
+});
+
+describe('teamCalendar', () => {
+  const ics = teamCalendar([row], templates, { ...options, weeks: 1 });
+  const lines = ics.split('\r\n');
+
+  it('writes a CRLF-separated VCALENDAR with one event per shift', () => {
+    expect(lines.slice(0, 2)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0']);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(3);
+    expect(lines).toContain('DTSTAMP:20261001T120000Z');
+    expect(lines).toContain('DTSTART:20261019T050000Z');
+  });
+
+  it('escapes text and flags overtime shifts', () => {
+    expect(lines).toContain('SUMMARY:Overtime: Night\\; late\\, long shift');
+    expect(lines.filter((line) => line === 'CATEGORIES:Overtime')).toHaveLength(1);
+  });
+
+  it('folds lines longer than 75 octets', () => {
+    expect(lines.every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(lines.some((line) => line.startsWith(' '))).toBe(true);
+  });
+});
+
+describe('time zones and dates', () => {
+  it('recognises IANA time zones', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+
+  it('finds the Monday on or after a date', () => {
+    expect(nextMonday(new Date(2026, 9, 18))).toBe('2026-10-19');
+    expect(nextMonday(new Date(2026, 9, 19))).toBe('2026-10-19');
+  });
+});
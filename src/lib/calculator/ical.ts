@@ -0,0 +1,201 @@
+import { addDays } from './holidays';
+import { parseTime, shiftLength, shiftPaidHours } from './roster';
+import { RosterRow, ShiftTemplate } from './types';
+
+// Which weeks to export and the timezone the shift times are in.
+// weekStart is the "YYYY-MM-DD" Monday of the first week.
+export interface IcsExportOptions {
+  weekStart: string;
+  weeks: number;
+  timeZone: string;
+  // DTSTAMP for every event; defaults to now
+  stamp?: Date;
+}
+
+// One rostered shift on a calendar date
+export interface RosterEvent {
+  row: RosterRow;
+  template: ShiftTemplate;
+  templateIndex: number;
+  start: Date;
+  end: Date;
+  overtimeHours: number;
+}
+
+const PRODID = '-//Labor Hour Coverage Calculator//Roster Export//EN';
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Minutes the zone is ahead of UTC at an instant
+function zoneOffset(utcMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(utcMs));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return Math.round((asUtc - Math.floor(utcMs / 1000) * 1000) / 60000);
+}
+
+// The instant a wall-clock time in a zone happens. A time skipped by a
+// DST change moves forward with it; a repeated time takes the first one.
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  minutesOfDay: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutesOfDay);
+  const offsetBefore = zoneOffset(wallClock - 86400000, timeZone);
+  const offsetAfter = zoneOffset(wallClock + 86400000, timeZone);
+
+  // Either offset may be the one in force; in a gap neither is
+  const matches = [offsetBefore, offsetAfter]
+    .filter((offset) => zoneOffset(wallClock - offset * 60000, timeZone) === offset)
+    .map((offset) => wallClock - offset * 60000);
+
+  return new Date(matches.length > 0 ? Math.min(...matches) : wallClock - offsetBefore * 60000);
+}
+
+// e.g. 20261019T060000Z
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// TEXT values escape backslashes, semicolons, commas and newlines
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      chunks.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+// Every shift in the roster, dated across the exported weeks. Once a
+// worker's week passes their contract hours, the rest is overtime.
+export function rosterEvents(rows: RosterRow[], templates: ShiftTemplate[], options: IcsExportOptions): RosterEvent[] {
+  const events: RosterEvent[] = [];
+
+  for (let week = 0; week < options.weeks; week++) {
+    rows.forEach((row) => {
+      let hoursSoFar = 0;
+
+      row.shifts.forEach((templateIndex, dayIndex) => {
+        const template = templateIndex === null ? undefined : templates[templateIndex];
+        if (templateIndex === null || !template) {
+          return;
+        }
+
+        const [year, month, day] = addDays(options.weekStart, week * 7 + dayIndex).split('-').map(Number);
+        const startMinutes = Math.round(parseTime(template.start) * 60);
+        const endMinutes = startMinutes + Math.round(shiftLength(template) * 60);
+        const paidHours = shiftPaidHours(template);
+        const overtimeHours = Math.min(paidHours, Math.max(0, hoursSoFar + paidHours - row.worker.contractHours));
+        hoursSoFar += paidHours;
+
+        events.push({
+          row,
+          template,
+          templateIndex,
+          start: zonedTimeToUtc(year, month, day, startMinutes, options.timeZone),
+          end: zonedTimeToUtc(year, month, day, endMinutes, options.timeZone),
+          overtimeHours,
+        });
+      });
+    });
+  }
+
+  return events;
+}
+
+function eventLines(event: RosterEvent, options: IcsExportOptions, stamp: string): string[] {
+  const { row, template, start, overtimeHours } = event;
+  const paidHours = shiftPaidHours(template);
+  const summary = `${overtimeHours > 0 ? 'Overtime: ' : ''}${template.name} shift`;
+  const description = [
+    `${row.worker.name} (${row.worker.role})`,
+    `${template.start}-${template.end} ${options.timeZone}, ${template.breakMinutes} min break, ${paidHours}h paid`,
+    ...(overtimeHours > 0 ? [`${overtimeHours}h overtime`] : []),
+  ].join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${row.worker.id}-${formatUtc(start)}-${event.templateIndex}@labor-calculator`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `CATEGORIES:${overtimeHours > 0 ? 'Overtime' : 'Shift'}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+  ];
+}
+
+// An RFC 5545 VCALENDAR holding the given events. Times are written in
+// UTC, converted from the roster's timezone date by date, so DST changes
+// inside the exported weeks land correctly in any calendar app.
+export function toIcs(events: RosterEvent[], name: string, options: IcsExportOptions): string {
+  const stamp = formatUtc(options.stamp ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${options.timeZone}`,
+    ...events.flatMap((event) => eventLines(event, options, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// One worker's shifts
+export function workerCalendar(row: RosterRow, templates: ShiftTemplate[], options: IcsExportOptions): string {
+  return toIcs(rosterEvents([row], templates, options), `Shifts - ${row.worker.name}`, options);
+}
+
+// Every worker's shifts in a single team feed
+export function teamCalendar(rows: RosterRow[], templates: ShiftTemplate[], options: IcsExportOptions): string {
+  return toIcs(rosterEvents(rows, templates, options), 'Team roster', options);
+}
+
+// "YYYY-MM-DD" of the Monday on or after a date
+export function nextMonday(from: Date = new Date()): string {
+  const daysAhead = (8 - from.getDay()) % 7;
+  const monday = new Date(from.getFullYear(), from.getMonth(), from.getDate() + daysAhead);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${monday.getFullYear()}-${pad(monday.getMonth() + 1)}-${pad(monday.getDate())}`;
+}
@@ -0,0 +1,171 @@
+// Main export file for the labor proposal engine
+export { calculateProposals, sortProposals } from './engine';
+export { calculateMetrics, costPercentage, availabilityFactor, roundHours } from './metrics';
+export { round2, loadedCost, uncoveredHoursCost } from './cost';
+export { budgetMetrics, budgetNote, withinBudget } from './budget';
+export {
+  holidaySets,
+  addDays,
+  isIsoDate,
+  calendarHolidays,
+  calendarLastYear,
+  holidayWeek,
+  holidayNote,
+  type HolidayWeek,
+} from './holidays';
+export { rampProductivity, buildSchedule } from './horizon';
+export { parseTime, shiftLength, shiftPaidHours, rosterWorkers, generateRoster, checkRoster } from './roster';
+export {
+  isValidTimeZone,
+  zonedTimeToUtc,
+  rosterEvents,
+  toIcs,
+  workerCalendar,
+  teamCalendar,
+  nextMonday,
+  type IcsExportOptions,
+  type RosterEvent,
+} from './ical';
+export { DAYS, HOURS_PER_WEEK, emptyGrid, uncoveredSlotHours, proposalCoverage, currentCoverage } from './coverage';
+export { optimizeMix } from './optimizer';
+export { differentialGrid, coverDifferential, coverPay, coverRate, dayRate, differentialNote } from './differentials';
+export {
+  seededRandom,
+  sampleTriangular,
+  simulatedHoursToCover,
+  simulateProposals,
+  type MonteCarloRequest,
+} from './monte-carlo';
+export {
+  breakEvenAnalysis,
+  breakEvenSeries,
+  type BreakEvenAnalysis,
+  type BreakEvenCrossover,
+  type BreakEvenPoint,
+  type BreakEvenSeries,
+} from './break-even';
+export {
+  MONTHS,
+  WEEKS_PER_YEAR,
+  monthOfWeek,
+  weeklyDemandMultipliers,
+  seasonalHoursToCover,
+  seasonalForecast,
+  type ForecastCost,
+  type ForecastMonth,
+  type ForecastSeason,
+  type SeasonalForecast,
+} from './forecast';
+export { CALENDAR_WEEKS_PER_YEAR, payPeriods, fromWeekly, toWeekly } from './pay-period';
+export {
+  sensitivityAnalysis,
+  sensitivityDrivers,
+  scaleDriver,
+  type ProposalSensitivity,
+  type SensitivityBar,
+  type SensitivityDriver,
+} from './sensitivity';
+export {
+  goalSeek,
+  goalSeekVariables,
+  goalSeekMetrics,
+  formatGoalSeekValue,
+  getFormValue,
+  withFormValue,
+  type GoalSeekComparison,
+  type GoalSeekMetric,
+  type GoalSeekResult,
+  type GoalSeekTarget,
+  type GoalSeekUnit,
+  type GoalSeekVariable,
+} from './goal-seek';
+export { laborLawPacks, getLaborLawPack, checkCompliance, legalExtraHoursCap } from './labor-law';
+export {
+  DEFAULT_OVERTIME_RULE,
+  overtimeRulePresets,
+  describeOvertimeRule,
+  weightedWeeklyHours,
+  overtimePay,
+  distributedOvertimePay,
+} from './overtime';
+export {
+  calculatorSchema,
+  overtimeRuleSchema,
+  shiftTemplateSchema,
+  shiftDifferentialSchema,
+  holidaySchema,
+  payPeriodSchema,
+  workerGroupSchema,
+  defaultCalculatorValues,
+  toCalculatorInputs,
+  type CalculatorFormData,
+} from './schema';
+export {
+  capacityMatchesStrategy,
+  hireWorkersStrategy,
+  overtimeStrategy,
+  mixedHireStrategy,
+  hybridStrategy,
+  partTimeHybridStrategy,
+  agencyStrategy,
+  agencyHybridStrategy,
+  optimizedMixStrategy,
+  leaveUncoveredStrategy,
+  defaultStrategies,
+  strategyOptions,
+} from './strategies';
+export { scheduledHours, fatigueExtraHoursCap, extraHoursCap, allocateOvertime, chooseHire, planAgency, describeHire } from './workforce';
+export type {
+  AbsenceRates,
+  AgencyPlan,
+  AgencyStaffing,
+  CalculatorInputs,
+  CalculatorMetrics,
+  ComplianceMode,
+  CoverageSummary,
+  CoverDifferential,
+  CoverWindow,
+  DemandCurve,
+  DifferentialKind,
+  FatigueRules,
+  HirePlan,
+  Holiday,
+  HolidayCalendar,
+  HolidayCalendarId,
+  HolidaySet,
+  HorizonWeek,
+  LaborBurden,
+  LaborLawPack,
+  LaborLawPackId,
+  MonteCarloSummary,
+  OptimizedMix,
+  OptimizerLever,
+  OvertimeAllocation,
+  OvertimeRule,
+  OvertimeTier,
+  OvertimeTrigger,
+  PartTimeHiring,
+  PayPeriod,
+  PlanningHorizon,
+  Proposal,
+  ProposalEfficiency,
+  ProposalMix,
+  ProposalStrategy,
+  RosterCheck,
+  RosterRow,
+  RosterWorker,
+  SeasonalDemand,
+  SeasonalGranularity,
+  ShiftDifferential,
+  ShiftTemplate,
+  TriangularDistribution,
+  Uncertainty,
+  UncoveredCost,
+  UnfilledShift,
+  WeeklyBudget,
+  WeeklyGrid,
+  WorkerGroup,
+} from './types';
+
+// Re-export the engine as default
+export { calculateProposals as default } from './engine';
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { calculateProposals } from './engine';
+import { checkCompliance, getLaborLawPack, legalExtraHoursCap } from './labor-law';
+import { CalculatorInputs, ComplianceMode, Proposal } from './types';
+
+const eu = getLaborLawPack('eu-wtd');
+
+// Ten workers on 45 hours at $25, each able to add 10 hours of overtime
+function team(targetWeekHours: number, complianceMode: ComplianceMode): CalculatorInputs {
+  return {
+    workerGroups: [
+      { role: 'Worker', headcount: 10, hourlyRate: 25, currentWeekHours: 45, targetWeekHours, maxExtraHours: 10 },
+    ],
+    laborLawPack: 'eu-wtd',
+    complianceMode,
+  };
+}
+
+function byId(proposals: Proposal[], id: string): Proposal {
+  const proposal = proposals.find((item) => item.id === id);
+  if (!proposal) {
+    throw new Error(`No ${id} proposal among ${proposals.map((item) => item.id).join(', ')}`);
+  }
+  return proposal;
+}
+
+describe('checkCompliance', () => {
+  it('warns past the EU 48h average week', () => {
+    expect(checkCompliance(eu, 48, 5)).toEqual([]);
+    expect(checkCompliance(eu, 50, 5)).toEqual([
+      '50h/week exceeds the EU Working Time Directive 48h average limit (17-week reference period)',
+    ]);
+  });
+
+  it('warns past the daily limit', () => {
+    expect(checkCompliance(eu, 70, 5)).toContain('14.0h/day exceeds the EU Working Time Directive 13h daily limit');
+  });
+
+  it('has nothing to check for packs without hour limits', () => {
+    expect(checkCompliance(getLaborLawPack('us-flsa'), 70, 5)).toEqual([]);
+  });
+});
+
+describe('legalExtraHoursCap', () => {
+  it('leaves room up to the tighter of the weekly and daily limits', () => {
+    expect(legalExtraHoursCap(eu, 40, 5)).toBe(8);
+    expect(legalExtraHoursCap({ ...eu, maxWeeklyHours: undefined }, 40, 5)).toBe(25);
+    expect(legalExtraHoursCap(eu, 50, 5)).toBe(0);
+  });
+
+  it('is uncapped without hour limits', () => {
+    expect(legalExtraHoursCap(getLaborLawPack('us-flsa'), 40, 5)).toBe(Infinity);
+  });
+});
+
+describe('compliance modes', () => {
+  it('flags proposals that break the limits', () => {
+    // Five workers on 10 extra hours each reach 50h
+    expect(byId(calculateProposals(team(40, 'flag')), 'overtime')).toMatchObject({
+      costImpact: 1875,
+      complianceIssues: ['50h/week exceeds the EU Working Time Directive 48h average limit (17-week reference period)'],
+    });
+  });
+
+  it('caps overtime at the legal limit when rejecting', () => {
+    const overtime = byId(calculateProposals(team(40, 'reject')), 'overtime');
+
+    expect(overtime.complianceIssues).toBeUndefined();
+    expect(overtime.mix?.overtime).toMatchObject([{ workers: 7, hoursPerWorker: 8 }]);
+  });
+
+  it('removes proposals that would still break the limits', () => {
+    // New hires would work the 50h target week
+    const proposals = calculateProposals(team(50, 'reject'));
+
+    expect(proposals.map((proposal) => proposal.id)).toEqual(['overtime']);
+    expect(proposals[0]).toMatchObject({ uncoveredHours: 20, efficiency: 'Partially covered' });
+  });
+});
@@ -0,0 +1,83 @@
+import { LaborLawPack, LaborLawPackId } from './types';
+
+// Jurisdiction rule packs selectable in the calculator
+export const laborLawPacks: Record<LaborLawPackId, LaborLawPack> = {
+  none: {
+    id: 'none',
+    name: 'No jurisdiction',
+    description: 'Only the site overtime rule applies',
+    overtimeRules: [],
+  },
+  'us-flsa': {
+    id: 'us-flsa',
+    name: 'US FLSA',
+    description: '1.5× for hours over 40 in a workweek',
+    overtimeRules: [
+      { trigger: 'weekly', tiers: [{ threshold: 40, multiplier: 1.5 }], daysPerWeek: 5, sundayMultiplier: 1 },
+    ],
+  },
+  'us-california': {
+    id: 'us-california',
+    name: 'California',
+    description: '1.5× over 8h/day or 40h/week, 2× over 12h/day, 1.5× on the 7th consecutive day',
+    overtimeRules: [
+      {
+        trigger: 'daily',
+        tiers: [
+          { threshold: 8, multiplier: 1.5 },
+          { threshold: 12, multiplier: 2 },
+        ],
+        daysPerWeek: 5,
+        sundayMultiplier: 1.5,
+      },
+      { trigger: 'weekly', tiers: [{ threshold: 40, multiplier: 1.5 }], daysPerWeek: 5, sundayMultiplier: 1.5 },
+    ],
+  },
+  'eu-wtd': {
+    id: 'eu-wtd',
+    name: 'EU Working Time Directive',
+    description: '48h average weekly cap over 17 weeks, 11h daily rest',
+    overtimeRules: [],
+    maxWeeklyHours: 48,
+    averagingWeeks: 17,
+    maxDailyHours: 13,
+  },
+};
+
+export function getLaborLawPack(id: LaborLawPackId = 'none'): LaborLawPack {
+  return laborLawPacks[id] ?? laborLawPacks.none;
+}
+
+// Legal limits broken by a worker scheduled for weeklyHours over daysPerWeek days.
+// A repeating week has the same average as any reference period.
+export function checkCompliance(pack: LaborLawPack, weeklyHours: number, daysPerWeek: number): string[] {
+  const issues: string[] = [];
+
+  if (pack.maxWeeklyHours !== undefined && weeklyHours > pack.maxWeeklyHours) {
+    issues.push(
+      `${weeklyHours}h/week exceeds the ${pack.name} ${pack.maxWeeklyHours}h average limit` +
+        (pack.averagingWeeks ? ` (${pack.averagingWeeks}-week reference period)` : '')
+    );
+  }
+
+  const dailyHours = weeklyHours / Math.max(1, daysPerWeek);
+  if (pack.maxDailyHours !== undefined && dailyHours > pack.maxDailyHours) {
+    issues.push(`${dailyHours.toFixed(1)}h/day exceeds the ${pack.name} ${pack.maxDailyHours}h daily limit`);
+  }
+
+  return issues;
+}
+
+// Most extra hours a worker on scheduledHours may legally add
+export function legalExtraHoursCap(pack: LaborLawPack, scheduledHours: number, daysPerWeek: number): number {
+  const caps = [Infinity];
+
+  if (pack.maxWeeklyHours !== undefined) {
+    caps.push(pack.maxWeeklyHours - scheduledHours);
+  }
+  if (pack.maxDailyHours !== undefined) {
+    caps.push(pack.maxDailyHours * Math.max(1, daysPerWeek) - scheduledHours);
+  }
+
+  return Math.max(0, Math.min(...caps));
+}
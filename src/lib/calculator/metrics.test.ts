@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { availabilityFactor, calculateMetrics, costPercentage } from './metrics';
+import { CalculatorInputs } from './types';
+
+// Ten workers on 40 hours at $25
+function team(targetWeekHours: number, overrides: Partial<CalculatorInputs> = {}): CalculatorInputs {
+  return {
+    workerGroups: [
+      { role: 'Worker', headcount: 10, hourlyRate: 25, currentWeekHours: 40, targetWeekHours, maxExtraHours: 5 },
+    ],
+    ...overrides,
+  };
+}
+
+describe('availabilityFactor', () => {
+  it('counts every hour as worked without absence rates', () => {
+    expect(availabilityFactor()).toBe(1);
+  });
+
+  it('takes out absence and the vacancies attrition leaves', () => {
+    expect(availabilityFactor({ absenceRatePercent: 20, monthlyAttritionPercent: 0, vacancyWeeks: 0 })).toBe(0.8);
+    // 2% a month leave and stay vacant for 6.5 weeks: 3% of the year's hours
+    expect(
+      availabilityFactor({ absenceRatePercent: 20, monthlyAttritionPercent: 2, vacancyWeeks: 6.5 })
+    ).toBeCloseTo(0.776);
+  });
+
+  it('never drops to zero', () => {
+    expect(availabilityFactor({ absenceRatePercent: 100, monthlyAttritionPercent: 0, vacancyWeeks: 0 })).toBe(0.01);
+  });
+});
+
+describe('calculateMetrics', () => {
+  it('grosses the hours to cover up for absence', () => {
+    const absenceRates = { absenceRatePercent: 20, monthlyAttritionPercent: 0, vacancyWeeks: 0 };
+
+    // 400 hours worked need 500 scheduled at 80% availability
+    expect(calculateMetrics(team(40, { absenceRates }))).toMatchObject({
+      availability: 0.8,
+      absenceHours: 100,
+      totalRequiredHours: 500,
+      totalHoursToCover: 100,
+    });
+    // Cutting to 35 hours leaves 50 hours to replace on top
+    expect(calculateMetrics(team(35, { absenceRates }))).toMatchObject({
+      totalHoursToReplace: 50,
+      absenceHours: 100,
+      totalHoursToCover: 150,
+    });
+  });
+
+  it('rolls the groups up', () => {
+    expect(calculateMetrics(team(45))).toMatchObject({
+      numberOfWorkers: 10,
+      currentWeeklyCost: 10000,
+      averageHourlyRate: 25,
+      totalHoursAboveCurrent: 50,
+      maxTotalExtraHours: 50,
+      absenceHours: 0,
+      totalHoursToCover: 50,
+    });
+  });
+});
+
+describe('costPercentage', () => {
+  it('compares a cost with the current weekly cost', () => {
+    expect(costPercentage(1875, calculateMetrics(team(45)))).toBe(18.75);
+  });
+});
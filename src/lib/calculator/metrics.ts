@@ -0,0 +1,74 @@
+import { holidayWeek } from './holidays';
+import { AbsenceRates, CalculatorInputs, CalculatorMetrics } from './types';
+
+// Round to hundredths of an hour
+export function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+// Share of scheduled hours that get worked once absences and unfilled
+// vacancies are taken out
+export function availabilityFactor(rates?: AbsenceRates): number {
+  if (!rates) {
+    return 1;
+  }
+
+  const vacancyShare = (rates.monthlyAttritionPercent / 100) * (12 / 52) * rates.vacancyWeeks;
+  return Math.max(0.01, (1 - rates.absenceRatePercent / 100) * (1 - Math.min(1, vacancyShare)));
+}
+
+// Roll current metrics up across worker groups
+export function calculateMetrics(inputs: CalculatorInputs): CalculatorMetrics {
+  const metrics: CalculatorMetrics = {
+    numberOfWorkers: 0,
+    totalCurrentWeekHours: 0,
+    totalTargetWeekHours: 0,
+    currentWeeklyCost: 0,
+    averageHourlyRate: 0,
+    totalHourDifference: 0,
+    maxTotalExtraHours: 0,
+    availability: availabilityFactor(inputs.absenceRates),
+    absenceHours: 0,
+    holidayHours: 0,
+    holidayPremiumCost: 0,
+    totalHoursToReplace: 0,
+    totalHoursAboveCurrent: 0,
+    totalRequiredHours: 0,
+    totalHoursToCover: 0,
+  };
+
+  inputs.workerGroups.forEach((group) => {
+    const hourDifference = group.targetWeekHours - group.currentWeekHours;
+
+    metrics.numberOfWorkers += group.headcount;
+    metrics.totalCurrentWeekHours += group.headcount * group.currentWeekHours;
+    metrics.totalTargetWeekHours += group.headcount * group.targetWeekHours;
+    metrics.currentWeeklyCost += group.headcount * group.currentWeekHours * group.hourlyRate;
+    metrics.totalHourDifference += group.headcount * hourDifference;
+    metrics.maxTotalExtraHours += group.headcount * group.maxExtraHours;
+    metrics.totalHoursToReplace += group.headcount * Math.max(0, -hourDifference);
+    metrics.totalHoursAboveCurrent += group.headcount * Math.max(0, hourDifference);
+  });
+
+  // Scheduling required / availability hours gets the required hours worked
+  const workedHours = metrics.totalCurrentWeekHours + metrics.totalHoursAboveCurrent;
+  metrics.absenceHours = roundHours(workedHours / metrics.availability - workedHours);
+  metrics.totalRequiredHours = workedHours + metrics.absenceHours;
+
+  // Hours the team takes off on holidays still need working by someone
+  const holidays = holidayWeek(inputs);
+  metrics.holidayHours = holidays.hours;
+  metrics.holidayPremiumCost = holidays.premiumCost;
+
+  metrics.totalHoursToCover =
+    metrics.totalHoursToReplace + metrics.totalHoursAboveCurrent + metrics.absenceHours + metrics.holidayHours;
+  metrics.averageHourlyRate =
+    metrics.totalCurrentWeekHours > 0 ? metrics.currentWeeklyCost / metrics.totalCurrentWeekHours : 0;
+
+  return metrics;
+}
+
+// Cost as a percentage of the current weekly cost
+export function costPercentage(cost: number, metrics: CalculatorMetrics): number {
+  return metrics.currentWeeklyCost > 0 ? (cost / metrics.currentWeeklyCost) * 100 : 0;
+}
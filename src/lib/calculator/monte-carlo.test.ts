@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { calculateProposals } from './engine';
+import { sampleTriangular, seededRandom, simulatedHoursToCover, simulateProposals } from './monte-carlo';
+import { CalculatorInputs, Proposal, Uncertainty } from './types';
+
+const none = { min: 0, likely: 0, max: 0 };
+
+// Demand 10% down to 20% up on a likely week as entered
+const uncertainty: Uncertainty = {
+  enabled: true,
+  runs: 2000,
+  demandChangePercent: { min: -10, likely: 0, max: 20 },
+  absenceRatePercent: none,
+};
+
+// Ten workers going from 40 to 35 hours at $25: 50 hours to cover
+function team(maxExtraHours: number, overrides: Partial<CalculatorInputs> = {}): CalculatorInputs {
+  return {
+    workerGroups: [
+      { role: 'Worker', headcount: 10, hourlyRate: 25, currentWeekHours: 40, targetWeekHours: 35, maxExtraHours },
+    ],
+    uncertainty,
+    ...overrides,
+  };
+}
+
+function byId(proposals: Proposal[], id: string): Proposal {
+  const proposal = proposals.find((item) => item.id === id);
+  if (!proposal) {
+    throw new Error(`No ${id} proposal among ${proposals.map((item) => item.id).join(', ')}`);
+  }
+  return proposal;
+}
+
+describe('sampling', () => {
+  it('repeats the same numbers for the same seed', () => {
+    const first = seededRandom(7);
+    const second = seededRandom(7);
+    const numbers = Array.from({ length: 5 }, () => first());
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(numbers);
+    expect(numbers.every((number) => number >= 0 && number < 1)).toBe(true);
+  });
+
+  it('keeps triangular samples within their range', () => {
+    const random = seededRandom(1);
+    const samples = Array.from({ length: 500 }, () => sampleTriangular({ min: -10, likely: 0, max: 20 }, random));
+
+    expect(Math.min(...samples)).toBeGreaterThanOrEqual(-10);
+    expect(Math.max(...samples)).toBeLessThanOrEqual(20);
+    expect(sampleTriangular({ min: 5, likely: 5, max: 5 }, random)).toBe(5);
+  });
+
+  it('gives the entered gap every week without uncertainty', () => {
+    const weeks = simulatedHoursToCover(team(5), { ...uncertainty, runs: 3, demandChangePercent: none });
+    expect(weeks).toEqual([50, 50, 50]);
+  });
+});
+
+describe('simulateProposals', () => {
+  it('is empty when uncertainty is off', () => {
+    const inputs = team(5, { uncertainty: { ...uncertainty, enabled: false } });
+    expect(simulateProposals(inputs, calculateProposals(inputs))).toEqual([]);
+  });
+
+  it('prices fixed hires the same every week and leaves busy weeks short', () => {
+    const inputs = team(5);
+    const [hire] = simulateProposals(inputs, [byId(calculateProposals(inputs), 'hire')]);
+
+    // Two hires cover 70 hours, short whenever demand is over 5% up: a 37.5% chance
+    expect(hire).toMatchObject({ p50Cost: 1750, p90Cost: 1750 });
+    expect(hire.uncoveredProbability).toBeCloseTo(0.375, 1);
+  });
+
+  it('flexes overtime with demand', () => {
+    const inputs = team(15);
+    const [overtime] = simulateProposals(inputs, [byId(calculateProposals(inputs), 'overtime')]);
+
+    expect(overtime).toMatchObject({ uncoveredProbability: 0, averageUncoveredHours: 0 });
+    // The median week needs about 60 hours at $37.50, the 90th percentile about 98
+    expect(overtime.p50Cost).toBe(2265);
+    expect(overtime.p90Cost).toBe(3669);
+  });
+});
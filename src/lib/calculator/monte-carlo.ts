@@ -0,0 +1,112 @@
+import { loadedCost } from './cost';
+import { availabilityFactor, calculateMetrics, roundHours } from './metrics';
+import { CalculatorInputs, MonteCarloSummary, Proposal, TriangularDistribution, Uncertainty } from './types';
+import { allocateOvertime } from './workforce';
+
+// What the page posts to the simulation worker
+export interface MonteCarloRequest {
+  inputs: CalculatorInputs;
+  proposals: Proposal[];
+}
+
+// Small seeded generator so the same inputs give the same percentiles
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Inverse of the triangular CDF at a uniform random number
+export function sampleTriangular({ min, likely, max }: TriangularDistribution, random: () => number): number {
+  if (max <= min) {
+    return likely;
+  }
+
+  const u = random();
+  const split = (likely - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (likely - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - likely));
+}
+
+// Nearest-rank percentile of ascending values
+function percentile(sorted: number[], share: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(share * sorted.length) - 1))];
+}
+
+// Hours to cover in each simulated week: the hours that must be worked,
+// shifted by demand and grossed up for absence, less what the current
+// team is scheduled for
+export function simulatedHoursToCover(inputs: CalculatorInputs, uncertainty: Uncertainty, seed = 1): number[] {
+  const metrics = calculateMetrics(inputs);
+  const workedHours = metrics.totalRequiredHours - metrics.absenceHours;
+  const scheduledHours = metrics.totalRequiredHours - metrics.totalHoursToCover;
+  const rates = inputs.absenceRates ?? { absenceRatePercent: 0, monthlyAttritionPercent: 0, vacancyWeeks: 0 };
+  const random = seededRandom(seed);
+
+  return Array.from({ length: uncertainty.runs }, () => {
+    const demand = workedHours * (1 + sampleTriangular(uncertainty.demandChangePercent, random) / 100);
+    const availability = availabilityFactor({
+      ...rates,
+      absenceRatePercent: sampleTriangular(uncertainty.absenceRatePercent, random),
+    });
+    return roundHours(Math.max(0, demand / availability - scheduledHours));
+  });
+}
+
+// A proposal's loaded cost and uncovered hours in a week needing
+// hoursNeeded. Hires and agency bookings are fixed; a proposal that uses
+// overtime covers what they don't, as far as the caps allow.
+function simulateWeek(inputs: CalculatorInputs, proposal: Proposal, hoursNeeded: number) {
+  const { overtime = [], hire, agency } = proposal.mix ?? {};
+  const fixedHours = (hire?.hours ?? 0) + (agency?.bookedHours ?? 0);
+  const fixedCost =
+    (hire ? loadedCost(hire.cost, hire.workers + hire.partTimeWorkers, inputs.laborBurden) : 0) + (agency?.cost ?? 0);
+
+  const overtimeNeeded = overtime.length > 0 ? Math.max(0, hoursNeeded - fixedHours) : 0;
+  const allocations = overtimeNeeded > 0 ? allocateOvertime(inputs, overtimeNeeded) : [];
+  const overtimeHours = allocations.reduce((sum, allocation) => sum + allocation.hours, 0);
+  const overtimeCost = loadedCost(
+    allocations.reduce((sum, allocation) => sum + allocation.cost, 0),
+    0,
+    inputs.laborBurden
+  );
+
+  return {
+    cost: fixedCost + overtimeCost,
+    uncoveredHours: roundHours(Math.max(0, hoursNeeded - fixedHours - overtimeHours)),
+  };
+}
+
+// P50/P90 loaded cost and the chance of uncovered hours for each
+// proposal, over the same simulated weeks. Any holiday premium is paid
+// whatever the week brings.
+export function simulateProposals(inputs: CalculatorInputs, proposals: Proposal[], seed = 1): MonteCarloSummary[] {
+  const uncertainty = inputs.uncertainty;
+  if (!uncertainty?.enabled || uncertainty.runs <= 0) {
+    return [];
+  }
+
+  const weeks = simulatedHoursToCover(inputs, uncertainty, seed);
+  const premium = loadedCost(calculateMetrics(inputs).holidayPremiumCost, 0, inputs.laborBurden);
+
+  return proposals.map((proposal) => {
+    const outcomes = weeks.map((hoursNeeded) => simulateWeek(inputs, proposal, hoursNeeded));
+    const costs = outcomes.map((outcome) => outcome.cost + premium).sort((a, b) => a - b);
+    const uncovered = outcomes.filter((outcome) => outcome.uncoveredHours > 0);
+
+    return {
+      p50Cost: Math.round(percentile(costs, 0.5) * 100) / 100,
+      p90Cost: Math.round(percentile(costs, 0.9) * 100) / 100,
+      uncoveredProbability: uncovered.length / outcomes.length,
+      averageUncoveredHours: roundHours(
+        outcomes.reduce((sum, outcome) => sum + outcome.uncoveredHours, 0) / outcomes.length
+      ),
+    };
+  });
+}
@@ -0,0 +1,7 @@
+import { simulateProposals, type MonteCarloRequest } from './monte-carlo';
+
+// Runs the simulation off the main thread so the page stays responsive
+self.addEventListener('message', (event: MessageEvent<MonteCarloRequest>) => {
+  const { inputs, proposals } = event.data;
+  self.postMessage(simulateProposals(inputs, proposals));
+});
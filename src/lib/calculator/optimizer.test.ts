@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMetrics } from './metrics';
+import { optimizeMix } from './optimizer';
+import { optimizedMixStrategy } from './strategies';
+import { CalculatorInputs, Proposal } from './types';
+
+// Ten workers on 40 hours at $25 aiming for 45, each able to add 5 hours of overtime
+const inputs: CalculatorInputs = {
+  workerGroups: [
+    { role: 'Worker', headcount: 10, hourlyRate: 25, currentWeekHours: 40, targetWeekHours: 45, maxExtraHours: 5 },
+  ],
+};
+
+describe('optimizeMix', () => {
+  it('has nothing to optimize without a gap', () => {
+    expect(optimizeMix(inputs, 0)).toBeNull();
+  });
+
+  it('combines overtime and hiring when that beats either alone', () => {
+    const optimized = optimizeMix(inputs, 50);
+
+    // One 45-hour hire at $25 plus 5 hours of overtime at $37.50
+    expect(optimized).toMatchObject({ loadedCost: 1312.5, uncoveredHours: 0, idleHours: 0, levers: ['overtime', 'hire'] });
+    expect(optimized?.mix.overtime).toMatchObject([{ workers: 1, hours: 5 }]);
+    expect(optimized?.mix.hire).toMatchObject({ workers: 1, partTimeWorkers: 0, hours: 45 });
+  });
+
+  it('leaves out the levers it is told to', () => {
+    expect(optimizeMix(inputs, 50, ['hire'])).toMatchObject({ loadedCost: 1875, levers: ['overtime'] });
+    // Overtime caps stop at 50 hours
+    expect(optimizeMix(inputs, 80, ['hire'])).toBeNull();
+  });
+
+  it('buys the most cover a budget allows', () => {
+    const optimized = optimizeMix(inputs, 50, [], 1000);
+
+    expect(optimized).toMatchObject({ loadedCost: 975, uncoveredHours: 24, levers: ['overtime'] });
+  });
+
+  it('tops up with agency blocks when they are cheapest', () => {
+    const optimized = optimizeMix(
+      { ...inputs, agencyStaffing: { enabled: true, markupPercent: 0, minBookingHours: 4, maxWeeklyHours: 100 } },
+      50
+    );
+
+    expect(optimized).toMatchObject({ loadedCost: 1262.5, uncoveredHours: 0, levers: ['overtime', 'hire', 'agency'] });
+    expect(optimized?.mix.agency).toMatchObject({ bookedHours: 4 });
+  });
+});
+
+describe('optimizedMixStrategy', () => {
+  const optimal = (targetWeekHours: number) => {
+    const goal = { ...inputs, workerGroups: [{ ...inputs.workerGroups[0], targetWeekHours }] };
+    return (optimizedMixStrategy(goal, calculateMetrics(goal)) as Proposal[])[0];
+  };
+
+  it('names the fixed strategy that proposes the same mix', () => {
+    // Two 50-hour hires are both the cheapest mix and the hire proposal
+    expect(optimal(50)).toMatchObject({ id: 'optimal', option: 'Optimal Mix (same as Hire Additional Workers)' });
+  });
+
+  it('keeps its own name for a mix no fixed strategy proposes', () => {
+    expect(optimal(45).option).toBe('Optimal Mix');
+  });
+});
@@ -0,0 +1,328 @@
+import { loadedCost } from './cost';
+import { coverPay, coverRate } from './differentials';
+import { getLaborLawPack } from './labor-law';
+import { roundHours } from './metrics';
+import { DEFAULT_OVERTIME_RULE, distributedOvertimePay } from './overtime';
+import {
+  AgencyPlan,
+  CalculatorInputs,
+  HirePlan,
+  OptimizedMix,
+  OptimizerLever,
+  OvertimeAllocation,
+  WorkerGroup,
+} from './types';
+import { extraHoursCap, planAgency, scheduledHours } from './workforce';
+
+// Most coverage states the search tracks; larger gaps are searched in
+// coarser hour steps so a calculation stays well under a second
+const MAX_STATES = 600;
+
+interface Price {
+  wages: number;
+  loaded: number;
+}
+
+// One decision in the search, e.g. how much overtime a group works. The
+// search picks exactly one of its options (hour amounts, 0 included).
+interface Choice {
+  kind: 'overtime' | 'full-time' | 'part-time' | 'agency';
+  group: WorkerGroup;
+  options: number[];
+  price: (hours: number) => Price;
+  // Most extra hours per worker, for overtime choices
+  cap?: number;
+}
+
+// 0, step, 2 × step, ... up to max, always ending on max itself
+function hourSteps(max: number, step: number): number[] {
+  const hours: number[] = [];
+  for (let value = 0; value < max; value += step) {
+    hours.push(value);
+  }
+  hours.push(max);
+  return hours;
+}
+
+function overtimeChoices(inputs: CalculatorInputs, limit: number, step: number): Choice[] {
+  const rule = inputs.overtimeRule ?? DEFAULT_OVERTIME_RULE;
+  const statutoryRules = getLaborLawPack(inputs.laborLawPack).overtimeRules;
+
+  return inputs.workerGroups
+    .map((group) => ({ group, cap: extraHoursCap(group, inputs) }))
+    .filter(({ group, cap }) => cap > 0 && group.headcount > 0)
+    .map(({ group, cap }) => ({
+      kind: 'overtime' as const,
+      group,
+      cap,
+      options: hourSteps(Math.min(group.headcount * cap, limit), step),
+      price: (hours: number) => {
+        const wages = coverPay(group, inputs, (rate) =>
+          distributedOvertimePay(hours, cap, scheduledHours(group), rate, rule, statutoryRules)
+        );
+        return { wages, loaded: loadedCost(wages, 0, inputs.laborBurden) };
+      },
+    }));
+}
+
+// Full-time hires in one role, plus a part-timer when part-time hiring is on
+function hireChoices(inputs: CalculatorInputs, group: WorkerGroup, limit: number, step: number): Choice[] {
+  const hourlyRate = coverRate(group, inputs);
+  const hires = Math.ceil(limit / group.targetWeekHours);
+  const choices: Choice[] = [
+    {
+      kind: 'full-time',
+      group,
+      options: Array.from({ length: hires + 1 }, (_, workers) => workers * group.targetWeekHours),
+      price: (hours) => {
+        const wages = hours * hourlyRate;
+        return { wages, loaded: loadedCost(wages, Math.round(hours / group.targetWeekHours), inputs.laborBurden) };
+      },
+    },
+  ];
+
+  const partTime = inputs.partTimeHiring;
+  if (partTime?.enabled && partTime.minShiftHours < group.targetWeekHours) {
+    const options = [0];
+    for (let hours = partTime.minShiftHours; hours < Math.min(group.targetWeekHours, limit + step); hours += step) {
+      options.push(hours);
+    }
+
+    choices.push({
+      kind: 'part-time',
+      group,
+      options,
+      price: (hours) => {
+        const wages = hours * hourlyRate;
+        return { wages, loaded: loadedCost(wages, hours > 0 ? 1 : 0, inputs.laborBurden) };
+      },
+    });
+  }
+
+  return choices;
+}
+
+// Agency hours in whole booking blocks, up to what the agency can supply
+function agencyChoices(inputs: CalculatorInputs, limit: number): Choice[] {
+  const agency = inputs.agencyStaffing;
+  const plan = agency?.enabled ? planAgency(inputs, limit, agency) : null;
+  if (!agency || !plan) {
+    return [];
+  }
+
+  const block = agency.minBookingHours;
+  return [
+    {
+      kind: 'agency',
+      group: plan.group,
+      options: Array.from({ length: plan.bookedHours / block + 1 }, (_, blocks) => blocks * block),
+      price: (hours) => {
+        const wages = Math.round(hours * plan.hourlyRate * 100) / 100;
+        return { wages, loaded: wages };
+      },
+    },
+  ];
+}
+
+// Multiple-choice knapsack by dynamic programming over hours covered, in
+// steps: the cheapest pick of one option per choice that covers every
+// step. Under a budget it settles for the most steps the budget buys.
+// Returns the hours picked for each choice, or null when the choices
+// can't cover the gap (or any of it, under a budget).
+function cheapestCover(choices: Choice[], steps: number, step: number, budget: number): number[] | null {
+  let best = new Float64Array(steps + 1).fill(Infinity);
+  best[0] = 0;
+  const picks: Int32Array[] = [];
+  const previous: Int32Array[] = [];
+
+  choices.forEach((choice) => {
+    const next = new Float64Array(steps + 1).fill(Infinity);
+    const pick = new Int32Array(steps + 1);
+    const from = new Int32Array(steps + 1);
+    const costs = choice.options.map((hours) => choice.price(hours).loaded);
+
+    best.forEach((cost, covered) => {
+      if (cost === Infinity) {
+        return;
+      }
+
+      choice.options.forEach((hours, index) => {
+        const reached = Math.min(steps, covered + Math.floor(hours / step + 1e-9));
+        if (cost + costs[index] < next[reached]) {
+          next[reached] = cost + costs[index];
+          pick[reached] = index;
+          from[reached] = covered;
+        }
+      });
+    });
+
+    best = next;
+    picks.push(pick);
+    previous.push(from);
+  });
+
+  let covered = steps;
+  if (budget !== Infinity) {
+    while (covered > 0 && best[covered] > budget) {
+      covered--;
+    }
+  }
+  if (covered === 0 || best[covered] === Infinity) {
+    return null;
+  }
+
+  const hours = new Array<number>(choices.length);
+  for (let index = choices.length - 1; index >= 0; index--) {
+    hours[index] = choices[index].options[picks[index][covered]];
+    covered = previous[index][covered];
+  }
+  return hours;
+}
+
+// Turn picked hours into a mix. Hours beyond the gap come off the
+// part-timer first, then the costliest overtime; the rest is paid idle.
+function toMix(choices: Choice[], picked: number[], hoursNeeded: number): OptimizedMix {
+  const hours = [...picked];
+  const pickedHours = roundHours(hours.reduce((sum, value) => sum + value, 0));
+  const uncoveredHours = roundHours(Math.max(0, hoursNeeded - pickedHours));
+  let surplus = roundHours(Math.max(0, pickedHours - hoursNeeded));
+
+  const trimOrder = choices
+    .map((choice, index) => ({ choice, index }))
+    .filter(({ choice, index }) => hours[index] > 0 && (choice.kind === 'part-time' || choice.kind === 'overtime'))
+    .sort(
+      (a, b) =>
+        Number(b.choice.kind === 'part-time') - Number(a.choice.kind === 'part-time') ||
+        b.choice.price(hours[b.index]).loaded / hours[b.index] - a.choice.price(hours[a.index]).loaded / hours[a.index]
+    );
+  trimOrder.forEach(({ choice, index }) => {
+    const floor = choice.kind === 'part-time' ? (choice.options[1] ?? 0) : 0;
+    const trim = Math.min(surplus, hours[index] - floor);
+    if (trim > 0) {
+      hours[index] = roundHours(hours[index] - trim);
+      surplus = roundHours(surplus - trim);
+    }
+  });
+
+  const overtime: OvertimeAllocation[] = [];
+  let fullTime: { group: WorkerGroup; hours: number; wages: number } | null = null;
+  let partTime: { group: WorkerGroup; hours: number; wages: number } | null = null;
+  let agency: AgencyPlan | undefined;
+  let wages = 0;
+  let loaded = 0;
+
+  for (const [index, choice] of choices.entries()) {
+    const chosen = hours[index];
+    if (chosen <= 0) {
+      continue;
+    }
+
+    const price = choice.price(chosen);
+    wages += price.wages;
+    loaded += price.loaded;
+
+    if (choice.kind === 'overtime' && choice.cap) {
+      overtime.push({
+        group: choice.group,
+        workers: Math.ceil(chosen / choice.cap),
+        hours: chosen,
+        hoursPerWorker: Math.min(choice.cap, chosen),
+        cost: price.wages,
+      });
+    } else if (choice.kind === 'full-time') {
+      fullTime = { group: choice.group, hours: chosen, wages: price.wages };
+    } else if (choice.kind === 'part-time') {
+      partTime = { group: choice.group, hours: chosen, wages: price.wages };
+    } else {
+      // Blocks are booked whole; any surplus left sits with the agency first
+      const idleHours = Math.min(surplus, chosen);
+      surplus = roundHours(surplus - idleHours);
+      agency = {
+        group: choice.group,
+        bookedHours: chosen,
+        coveredHours: roundHours(chosen - idleHours),
+        idleHours,
+        hourlyRate: price.wages / chosen,
+        cost: price.wages,
+      };
+    }
+  }
+
+  let hire: HirePlan | undefined;
+  const hireGroup = (fullTime ?? partTime)?.group;
+  if (hireGroup) {
+    const fullTimeHours = fullTime?.hours ?? 0;
+    const partTimeHours = partTime?.hours ?? 0;
+    const hireWages = (fullTime?.wages ?? 0) + (partTime?.wages ?? 0);
+    hire = {
+      group: hireGroup,
+      workers: Math.round(fullTimeHours / hireGroup.targetWeekHours),
+      partTimeWorkers: partTimeHours > 0 ? 1 : 0,
+      partTimeHours,
+      hours: roundHours(fullTimeHours + partTimeHours),
+      idleHours: surplus,
+      hourlyRate: hireWages / (fullTimeHours + partTimeHours),
+      cost: hireWages,
+    };
+  }
+
+  const levers: OptimizerLever[] = [
+    ...(overtime.length > 0 ? ['overtime' as const] : []),
+    ...(hire ? ['hire' as const] : []),
+    ...(agency ? ['agency' as const] : []),
+  ];
+
+  return {
+    mix: { overtime, hire, agency },
+    wages: Math.round(wages * 100) / 100,
+    loadedCost: Math.round(loaded * 100) / 100,
+    idleHours: roundHours((hire?.idleHours ?? 0) + (agency?.idleHours ?? 0)),
+    uncoveredHours,
+    levers,
+  };
+}
+
+// Search every combination of overtime per group, full-time and
+// part-time hires (in one role) and agency hours for the lowest loaded
+// cost that covers hoursNeeded. Overtime stays within the fatigue caps,
+// and the legal ones in reject mode. Levers in `without` are left out.
+// Under a budget it finds the most cover the budget buys, cheapest first.
+export function optimizeMix(
+  inputs: CalculatorInputs,
+  hoursNeeded: number,
+  without: OptimizerLever[] = [],
+  budget = Infinity
+): OptimizedMix | null {
+  if (hoursNeeded <= 0) {
+    return null;
+  }
+
+  const step = Math.max(1, Math.ceil(hoursNeeded / MAX_STATES));
+  const steps = Math.ceil(hoursNeeded / step);
+  const limit = steps * step;
+
+  const shared = [
+    ...(without.includes('overtime') ? [] : overtimeChoices(inputs, limit, step)),
+    ...(without.includes('agency') ? [] : agencyChoices(inputs, limit)),
+  ];
+  const hireGroups = without.includes('hire') ? [] : inputs.workerGroups.filter((group) => group.targetWeekHours > 0);
+  const choiceSets = hireGroups.length > 0
+    ? hireGroups.map((group) => [...shared, ...hireChoices(inputs, group, limit, step)])
+    : [shared];
+
+  let best: OptimizedMix | null = null;
+  for (const choices of choiceSets) {
+    const picked = choices.length > 0 ? cheapestCover(choices, steps, step, budget) : null;
+    const candidate = picked ? toMix(choices, picked, hoursNeeded) : null;
+    if (
+      candidate &&
+      (!best ||
+        candidate.uncoveredHours < best.uncoveredHours ||
+        (candidate.uncoveredHours === best.uncoveredHours && candidate.loadedCost < best.loadedCost))
+    ) {
+      best = candidate;
+    }
+  }
+
+  return best;
+}
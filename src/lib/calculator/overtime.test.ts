@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { getLaborLawPack } from './labor-law';
+import { describeOvertimeRule, distributedOvertimePay, overtimePay, overtimeRulePresets } from './overtime';
+import { OvertimeRule } from './types';
+
+const standard = overtimeRulePresets.standard.rule;
+const weekly40 = overtimeRulePresets.weekly40.rule;
+const dailyDoubleTime = overtimeRulePresets.dailyDoubleTime.rule;
+const sundayPremium = overtimeRulePresets.sundayPremium.rule;
+const flsa = getLaborLawPack('us-flsa').overtimeRules;
+const california = getLaborLawPack('us-california').overtimeRules;
+
+// Paid-equivalent hours are returned as pay at $1 an hour
+describe('overtime presets', () => {
+  it('pays every extra hour at 1.5× by default', () => {
+    expect(overtimePay(40, 10, 1, standard)).toBe(15);
+  });
+
+  it('pays 1.5× after 8h and 2× after 12h a day', () => {
+    // 13h a day: 4h at 1.5× and 1h at 2× on each of 5 days
+    expect(overtimePay(40, 25, 1, dailyDoubleTime)).toBe(40);
+  });
+
+  it('pays 1.5× only past 40h a week', () => {
+    // 5 extra hours reach 40 at straight time, the other 5 at 1.5×
+    expect(overtimePay(35, 10, 1, weekly40)).toBe(12.5);
+  });
+
+  it('pays Sunday hours at 2×', () => {
+    // One extra hour on each of 7 days, Sunday's at 2×
+    expect(overtimePay(40, 7, 1, sundayPremium)).toBe(11);
+  });
+
+  it('describes each preset by its tiers', () => {
+    expect(Object.values(overtimeRulePresets).map((preset) => describeOvertimeRule(preset.rule))).toEqual(
+      Object.values(overtimeRulePresets).map((preset) => preset.label)
+    );
+  });
+
+  it('prices extra hours in blocks of the per-worker cap', () => {
+    // Two workers on 5 extra hours and one on 2, all past 40h
+    expect(distributedOvertimePay(12, 5, 40, 20, weekly40)).toBe(360);
+  });
+});
+
+describe('site rule with a statutory pack', () => {
+  const straightTime: OvertimeRule = { trigger: 'scheduled', tiers: [], daysPerWeek: 5, sundayMultiplier: 1 };
+
+  it('pays statutory overtime the site rule leaves out', () => {
+    expect(overtimePay(35, 10, 1, straightTime, flsa)).toBe(12.5);
+  });
+
+  it('pays the higher premium instead of stacking them', () => {
+    expect(overtimePay(40, 25, 1, dailyDoubleTime, flsa)).toBe(40);
+  });
+});
+
+describe('California overtime', () => {
+  it('counts only regular hours towards the weekly 40', () => {
+    // 8.4h a day: 0.4h past 8 each day, 40 regular hours and no weekly overtime
+    expect(overtimePay(32, 10, 1, weekly40, california)).toBe(11);
+    // 8.8h a day: 4 daily overtime hours and 40 regular hours
+    expect(overtimePay(36, 8, 1, weekly40, california)).toBe(10);
+  });
+
+  it('pays weekly overtime on regular hours past 40', () => {
+    // 6 days of 8h under the pack's daily rule: 40 regular hours, then 8 at 1.5×
+    expect(overtimePay(40, 8, 1, { ...weekly40, daysPerWeek: 6 }, california)).toBe(12);
+  });
+});
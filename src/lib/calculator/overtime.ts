@@ -0,0 +1,220 @@
+import { OvertimeRule, OvertimeTrigger } from './types';
+
+// Every hour beyond the scheduled week paid at time and a half
+export const DEFAULT_OVERTIME_RULE: OvertimeRule = {
+  trigger: 'scheduled',
+  tiers: [{ threshold: 0, multiplier: 1.5 }],
+  daysPerWeek: 5,
+  sundayMultiplier: 1,
+};
+
+// Common rules offered by the calculator form
+export const overtimeRulePresets: Record<string, { label: string; rule: OvertimeRule }> = {
+  standard: {
+    label: '1.5× beyond scheduled hours',
+    rule: DEFAULT_OVERTIME_RULE,
+  },
+  weekly40: {
+    label: '1.5× after 40h/week',
+    rule: { trigger: 'weekly', tiers: [{ threshold: 40, multiplier: 1.5 }], daysPerWeek: 5, sundayMultiplier: 1 },
+  },
+  dailyDoubleTime: {
+    label: '1.5× after 8h/day, 2× after 12h/day',
+    rule: {
+      trigger: 'daily',
+      tiers: [
+        { threshold: 8, multiplier: 1.5 },
+        { threshold: 12, multiplier: 2 },
+      ],
+      daysPerWeek: 5,
+      sundayMultiplier: 1,
+    },
+  },
+  sundayPremium: {
+    label: '1.5× beyond scheduled hours, Sunday 2×',
+    rule: { trigger: 'scheduled', tiers: [{ threshold: 0, multiplier: 1.5 }], daysPerWeek: 7, sundayMultiplier: 2 },
+  },
+};
+
+const triggerUnits: Record<OvertimeTrigger, string> = {
+  scheduled: 'scheduled hours',
+  daily: 'h/day',
+  weekly: 'h/week',
+};
+
+// Human readable summary, e.g. "1.5× after 8h/day, 2× after 12h/day"
+export function describeOvertimeRule(rule: OvertimeRule): string {
+  const tiers = [...rule.tiers]
+    .sort((a, b) => a.threshold - b.threshold)
+    .map((tier) => {
+      if (rule.trigger === 'scheduled') {
+        return tier.threshold > 0
+          ? `${tier.multiplier}× after scheduled + ${tier.threshold}h`
+          : `${tier.multiplier}× beyond scheduled hours`;
+      }
+      return `${tier.multiplier}× after ${tier.threshold}${triggerUnits[rule.trigger]}`;
+    });
+
+  if (rule.daysPerWeek >= 7 && rule.sundayMultiplier > 1) {
+    tiers.push(`Sunday ${rule.sundayMultiplier}×`);
+  }
+
+  return tiers.join(', ');
+}
+
+// Where an hour sits relative to a rule's tier thresholds. For weekly
+// counting, extra hours come after the whole scheduled week so premiums
+// from different rules land on the same hours instead of pyramiding, and
+// only regular hours count: those past a daily rule's first threshold
+// are already overtime (dailyLimit).
+interface DayLayout {
+  extraStart: number;
+  scheduledPerDay: number;
+  dailyLimit: number;
+  weeklyStart: number;
+  weeklyExtraStart: number;
+  weeklyScheduled: number;
+}
+
+function positionFor(trigger: OvertimeTrigger, layout: DayLayout, dayHour: number): number {
+  if (trigger === 'daily') {
+    return dayHour;
+  }
+
+  const isExtra = dayHour > layout.scheduledPerDay;
+  if (trigger === 'weekly') {
+    const regularHour = Math.min(dayHour, layout.dailyLimit);
+    return isExtra
+      ? layout.weeklyScheduled + layout.weeklyExtraStart + Math.max(0, regularHour - layout.scheduledPerDay)
+      : layout.weeklyStart + regularHour;
+  }
+  return isExtra ? layout.extraStart + dayHour - layout.scheduledPerDay : -1;
+}
+
+// Hours of the day at which a tier threshold may be crossed
+function breakpointsFor(trigger: OvertimeTrigger, layout: DayLayout, threshold: number): number[] {
+  if (trigger === 'daily') {
+    return [threshold];
+  }
+  if (trigger === 'weekly') {
+    return [
+      threshold - layout.weeklyStart,
+      layout.scheduledPerDay + threshold - layout.weeklyScheduled - layout.weeklyExtraStart,
+    ];
+  }
+  return [layout.scheduledPerDay + threshold - layout.extraStart];
+}
+
+// Multiplier earned by an hour under one rule
+function multiplierAt(rule: OvertimeRule, layout: DayLayout, dayHour: number, isSunday: boolean): number {
+  const position = positionFor(rule.trigger, layout, dayHour);
+  let multiplier = 1;
+  rule.tiers.forEach((tier) => {
+    if (position > tier.threshold) {
+      multiplier = Math.max(multiplier, tier.multiplier);
+    }
+  });
+
+  // Premiums don't stack: Sunday hours get whichever is higher
+  return isSunday ? Math.max(multiplier, rule.sundayMultiplier) : multiplier;
+}
+
+// Paid-equivalent hours (hours × multiplier) for one worker's week.
+// Each day works its share of the scheduled hours first, then its share
+// of the extra hours. Statutory rules are evaluated alongside the site
+// rule and the highest multiplier wins; the site rule sets the days.
+export function weightedWeeklyHours(
+  hours: number,
+  scheduledHours: number,
+  rule: OvertimeRule,
+  statutoryRules: OvertimeRule[] = []
+): number {
+  const rules = [rule, ...statutoryRules];
+  const days = Math.max(1, Math.round(rule.daysPerWeek));
+  const hoursPerDay = hours / days;
+  const scheduledPerDay = Math.min(hoursPerDay, scheduledHours / days);
+  const extraPerDay = hoursPerDay - scheduledPerDay;
+  const dailyLimit = Math.min(
+    Infinity,
+    ...rules
+      .filter((current) => current.trigger === 'daily')
+      .flatMap((current) => current.tiers.filter((tier) => tier.multiplier > 1).map((tier) => tier.threshold))
+  );
+  const regularScheduledPerDay = Math.min(scheduledPerDay, dailyLimit);
+  const regularExtraPerDay = Math.max(0, Math.min(hoursPerDay, dailyLimit) - scheduledPerDay);
+  let weighted = 0;
+
+  for (let day = 0; day < days; day++) {
+    const layout: DayLayout = {
+      extraStart: day * extraPerDay,
+      scheduledPerDay,
+      dailyLimit,
+      weeklyStart: day * regularScheduledPerDay,
+      weeklyExtraStart: day * regularExtraPerDay,
+      weeklyScheduled: regularScheduledPerDay * days,
+    };
+
+    // Split the day wherever a tier threshold falls inside it
+    const breakpoints = new Set([0, scheduledPerDay, hoursPerDay]);
+    rules.forEach((current) => {
+      current.tiers.forEach((tier) => {
+        breakpointsFor(current.trigger, layout, tier.threshold).forEach((offset) => {
+          if (offset > 0 && offset < hoursPerDay) {
+            breakpoints.add(offset);
+          }
+        });
+      });
+    });
+
+    const points = [...breakpoints].sort((a, b) => a - b);
+    for (let i = 1; i < points.length; i++) {
+      const middle = (points[i - 1] + points[i]) / 2;
+      const multiplier = Math.max(...rules.map((current) => multiplierAt(current, layout, middle, day === 6)));
+      weighted += (points[i] - points[i - 1]) * multiplier;
+    }
+  }
+
+  return weighted;
+}
+
+// Pay for one worker working extraHours on top of scheduledHours
+export function overtimePay(
+  scheduledHours: number,
+  extraHours: number,
+  hourlyRate: number,
+  rule: OvertimeRule,
+  statutoryRules: OvertimeRule[] = []
+): number {
+  if (extraHours <= 0) {
+    return 0;
+  }
+
+  const extraWeighted =
+    weightedWeeklyHours(scheduledHours + extraHours, scheduledHours, rule, statutoryRules) -
+    weightedWeeklyHours(scheduledHours, scheduledHours, rule, statutoryRules);
+
+  return Math.round(extraWeighted * hourlyRate * 100) / 100;
+}
+
+// Pay for extra hours handed out in blocks of up to maxExtraPerWorker
+export function distributedOvertimePay(
+  totalExtraHours: number,
+  maxExtraPerWorker: number,
+  scheduledHours: number,
+  hourlyRate: number,
+  rule: OvertimeRule,
+  statutoryRules: OvertimeRule[] = []
+): number {
+  if (totalExtraHours <= 0 || maxExtraPerWorker <= 0) {
+    return 0;
+  }
+
+  const fullWorkers = Math.floor(totalExtraHours / maxExtraPerWorker);
+  const remainder = totalExtraHours - fullWorkers * maxExtraPerWorker;
+
+  const pay =
+    fullWorkers * overtimePay(scheduledHours, maxExtraPerWorker, hourlyRate, rule, statutoryRules) +
+    overtimePay(scheduledHours, remainder, hourlyRate, rule, statutoryRules);
+
+  return Math.round(pay * 100) / 100;
+}
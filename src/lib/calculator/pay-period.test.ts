@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { CALENDAR_WEEKS_PER_YEAR, fromWeekly, payPeriods, toWeekly } from './pay-period';
+import { calculatorSchema, defaultCalculatorValues, toCalculatorInputs } from './schema';
+
+describe('payPeriods', () => {
+  it('spans the average Gregorian year', () => {
+    expect(CALENDAR_WEEKS_PER_YEAR).toBeCloseTo(52.1775, 4);
+    expect(payPeriods.monthly.weeks * 12).toBeCloseTo(CALENDAR_WEEKS_PER_YEAR, 10);
+    expect(payPeriods.semimonthly.weeks * 2).toBeCloseTo(payPeriods.monthly.weeks, 10);
+    expect(payPeriods.biweekly.weeks).toBe(2);
+  });
+});
+
+describe('conversions', () => {
+  it('scales weekly figures to a period, to cents', () => {
+    expect(fromWeekly(1000, 'weekly')).toBe(1000);
+    expect(fromWeekly(1000, 'biweekly')).toBe(2000);
+    expect(fromWeekly(1000, 'monthly')).toBe(4348.13);
+    expect(fromWeekly(1000, 'annual')).toBe(52177.5);
+  });
+
+  it('brings period figures back to weekly, to cents', () => {
+    expect(toWeekly(4348.13, 'monthly')).toBe(1000);
+    expect(toWeekly(52177.5, 'annual')).toBe(1000);
+    expect(toWeekly(100, 'semimonthly')).toBe(46);
+  });
+});
+
+describe('period-based form fields', () => {
+  it('reach the engine as weekly figures', () => {
+    const inputs = toCalculatorInputs({
+      ...defaultCalculatorValues,
+      laborBurden: { ...defaultCalculatorValues.laborBurden, benefitsPerHead: 2000, benefitsPeriod: 'biweekly' },
+      weeklyBudget: { enabled: true, maxSpend: 52177.5, period: 'annual' },
+    });
+
+    expect(inputs.laborBurden?.benefitsPerHeadWeekly).toBe(1000);
+    expect(inputs.weeklyBudget).toEqual({ enabled: true, maxWeeklySpend: 1000 });
+  });
+
+  it('are bounded by their weekly equivalents', () => {
+    const parse = (benefitsPerHead: number, benefitsPeriod: 'weekly' | 'monthly') =>
+      calculatorSchema.safeParse({
+        ...defaultCalculatorValues,
+        laborBurden: { ...defaultCalculatorValues.laborBurden, benefitsPerHead, benefitsPeriod },
+      });
+
+    expect(parse(20000, 'weekly').success).toBe(false);
+    expect(parse(20000, 'monthly').success).toBe(true);
+  });
+});
@@ -0,0 +1,25 @@
+import { PayPeriod } from './types';
+
+// Weeks in an average Gregorian year: 365.2425 days over the 400-year
+// leap cycle, so 52.1775 rather than 52
+export const CALENDAR_WEEKS_PER_YEAR = 365.2425 / 7;
+
+// Weeks in each pay period. Bi-weekly is exactly two weeks; months and
+// half-months are a twelfth and a twenty-fourth of the average year.
+export const payPeriods: Record<PayPeriod, { label: string; unit: string; weeks: number }> = {
+  weekly: { label: 'Weekly', unit: 'week', weeks: 1 },
+  biweekly: { label: 'Bi-weekly', unit: 'fortnight', weeks: 2 },
+  semimonthly: { label: 'Semi-monthly', unit: 'half-month', weeks: CALENDAR_WEEKS_PER_YEAR / 24 },
+  monthly: { label: 'Monthly', unit: 'month', weeks: CALENDAR_WEEKS_PER_YEAR / 12 },
+  annual: { label: 'Annual', unit: 'year', weeks: CALENDAR_WEEKS_PER_YEAR },
+};
+
+// A weekly figure over a pay period, to cents or hundredths of an hour
+export function fromWeekly(value: number, period: PayPeriod): number {
+  return Math.round(value * payPeriods[period].weeks * 100) / 100;
+}
+
+// The weekly equivalent of a figure given per pay period, to cents
+export function toWeekly(value: number, period: PayPeriod): number {
+  return Math.round((value / payPeriods[period].weeks) * 100) / 100;
+}
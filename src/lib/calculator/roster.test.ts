@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { allocateOvertime } from './workforce';
+import { checkRoster, generateRoster, parseTime, rosterWorkers, shiftLength, shiftPaidHours } from './roster';
+import { CalculatorInputs, FatigueRules, RosterRow, ShiftTemplate, WorkerGroup } from './types';
+
+const weekdays = [true, true, true, true, true, false, false];
+const rules: FatigueRules = { minRestHours: 11, maxConsecutiveDays: 6, maxDailyHours: 12 };
+
+const day: ShiftTemplate = { name: 'Day', start: '09:00', end: '17:30', breakMinutes: 30, requiredHeadcount: 2, days: weekdays };
+const night: ShiftTemplate = { name: 'Night', start: '22:00', end: '06:00', breakMinutes: 0, requiredHeadcount: 1, days: weekdays };
+
+const group: WorkerGroup = {
+  role: 'Worker',
+  headcount: 4,
+  hourlyRate: 20,
+  currentWeekHours: 32,
+  targetWeekHours: 40,
+  maxExtraHours: 8,
+};
+
+function row(worker: string, shifts: (number | null)[], maxHours = 40): RosterRow {
+  return {
+    worker: { id: worker, name: worker, role: 'Worker', kind: 'existing', contractHours: 40, maxHours },
+    shifts,
+  };
+}
+
+describe('shift times', () => {
+  it('parses times and runs shifts past midnight', () => {
+    expect(parseTime('17:30')).toBe(17.5);
+    expect(shiftLength(night)).toBe(8);
+    expect(shiftPaidHours(day)).toBe(8);
+  });
+});
+
+describe('rosterWorkers', () => {
+  it('gives overtime only to as many workers as the proposal priced it for', () => {
+    const inputs: CalculatorInputs = { workerGroups: [group] };
+    const [allocation] = allocateOvertime(inputs, 12);
+    expect(allocation).toMatchObject({ workers: 2, hoursPerWorker: 8 });
+
+    const workers = rosterWorkers(inputs, { overtime: [allocation] });
+    expect(workers.map((worker) => worker.maxHours)).toEqual([40, 36, 32, 32]);
+  });
+
+  it('adds numbered placeholders for hires and week-long agency bookings', () => {
+    const inputs: CalculatorInputs = { workerGroups: [group] };
+    const workers = rosterWorkers(inputs, {
+      overtime: [],
+      hire: { group, workers: 1, partTimeWorkers: 1, partTimeHours: 20, hours: 60, idleHours: 0, hourlyRate: 20, cost: 1200 },
+      agency: { group, bookedHours: 50, coveredHours: 50, idleHours: 0, hourlyRate: 27, cost: 1350 },
+    });
+
+    expect(workers.slice(4).map((worker) => [worker.name, worker.maxHours])).toEqual([
+      ['New hire 1', 40],
+      ['New hire 2', 20],
+      ['Agency 1', 40],
+      ['Agency 2', 10],
+    ]);
+  });
+});
+
+describe('generateRoster', () => {
+  it('fills every slot within hours and rest limits when there are enough workers', () => {
+    const inputs: CalculatorInputs = { workerGroups: [{ ...group, currentWeekHours: 40 }] };
+    const rows = generateRoster(inputs, { overtime: [] }, [day, night], rules);
+    const check = checkRoster(rows, [day, night], rules);
+
+    expect(check.issues).toEqual([]);
+    expect(check.unfilled).toEqual([]);
+    // 15 eight-hour shifts spread over four workers
+    const hours = Object.values(check.hoursByWorker);
+    expect(hours.reduce((sum, worked) => sum + worked, 0)).toBe(120);
+    expect(Math.max(...hours) - Math.min(...hours)).toBeLessThanOrEqual(8);
+  });
+
+  it('leaves slots unfilled rather than breaking a limit', () => {
+    const inputs: CalculatorInputs = { workerGroups: [{ ...group, headcount: 2, currentWeekHours: 40 }] };
+    const check = checkRoster(generateRoster(inputs, { overtime: [] }, [day, night], rules), [day, night], rules);
+
+    expect(check.issues).toEqual([]);
+    expect(check.unfilled.reduce((sum, shift) => sum + shift.missing, 0)).toBe(5);
+  });
+});
+
+describe('checkRoster', () => {
+  it('reports short rest, long runs and hours over the limit', () => {
+    const rows = [row('Ana', [1, 0, null, null, null, null, null], 8), row('Ben', [0, 0, 0, 0, 0, 0, 0])];
+    const { issues } = checkRoster(rows, [day, night], { ...rules, maxConsecutiveDays: 5 });
+
+    expect(issues).toEqual([
+      'Ana is rostered 16h, above their 8h limit',
+      'Ana gets only 3h rest before Tue Day',
+      'Ben is rostered 56h, above their 40h limit',
+      'Ben works 7 days in a row, above the 5-day limit',
+    ]);
+  });
+});
@@ -0,0 +1,276 @@
+import { DAYS, HOURS_PER_WEEK } from './coverage';
+import { roundHours } from './metrics';
+import {
+  CalculatorInputs,
+  ProposalMix,
+  RosterCheck,
+  RosterRow,
+  FatigueRules,
+  RosterWorker,
+  ShiftTemplate,
+  UnfilledShift,
+} from './types';
+import { scheduledHours } from './workforce';
+
+// Hours since midnight for an "HH:MM" time
+export function parseTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) + (minutes || 0) / 60;
+}
+
+// Length of a shift from start to end, past midnight if need be
+export function shiftLength(template: ShiftTemplate): number {
+  const length = parseTime(template.end) - parseTime(template.start);
+  return length > 0 ? length : length + 24;
+}
+
+// Hours a shift is paid for, after its unpaid break
+export function shiftPaidHours(template: ShiftTemplate): number {
+  return Math.max(0, shiftLength(template) - template.breakMinutes / 60);
+}
+
+// Start and end of a shift in hours since Monday 00:00
+function shiftWindow(template: ShiftTemplate, day: number): { start: number; end: number } {
+  const start = day * 24 + parseTime(template.start);
+  return { start, end: start + shiftLength(template) };
+}
+
+// Hours between the end of one shift and the start of the next, with the
+// week repeating so Sunday night runs into Monday
+function restBetween(first: { end: number }, second: { start: number }): number {
+  return (((second.start - first.end) % HOURS_PER_WEEK) + HOURS_PER_WEEK) % HOURS_PER_WEEK;
+}
+
+// Rest before and after a shift on `day`, against a worker's other shifts
+function restAround(
+  row: RosterRow,
+  templates: ShiftTemplate[],
+  day: number,
+  template: number
+): { before: number; after: number } {
+  const candidate = shiftWindow(templates[template], day);
+  let before = Infinity;
+  let after = Infinity;
+
+  row.shifts.forEach((other, otherDay) => {
+    if (other === null || otherDay === day || !templates[other]) {
+      return;
+    }
+    const window = shiftWindow(templates[other], otherDay);
+    before = Math.min(before, restBetween(window, candidate));
+    after = Math.min(after, restBetween(candidate, window));
+  });
+
+  return { before, after };
+}
+
+// Longest run of working days, with the week repeating. Working every
+// day counts as 7.
+function longestRun(shifts: (number | null)[]): number {
+  if (shifts.every((shift) => shift !== null)) {
+    return shifts.length;
+  }
+
+  let longest = 0;
+  let run = 0;
+  // Two passes so a run over Sunday into Monday is counted whole
+  [...shifts, ...shifts].forEach((shift) => {
+    run = shift === null ? 0 : run + 1;
+    longest = Math.max(longest, run);
+  });
+  return Math.min(longest, shifts.length);
+}
+
+function rosteredHours(row: RosterRow, templates: ShiftTemplate[]): number {
+  return row.shifts.reduce<number>(
+    (sum, template) => sum + (template !== null && templates[template] ? shiftPaidHours(templates[template]) : 0),
+    0
+  );
+}
+
+// Everyone a proposal puts on the roster. Existing workers may go past
+// their scheduled hours only by the overtime the proposal gives their
+// group, shared among as many workers as it priced; hires and agency
+// bookings get numbered placeholders.
+export function rosterWorkers(inputs: CalculatorInputs, mix: ProposalMix): RosterWorker[] {
+  const workers: RosterWorker[] = [];
+
+  inputs.workerGroups.forEach((group, groupIndex) => {
+    const allocation = mix.overtime.find((candidate) => candidate.group === group);
+    const contractHours = scheduledHours(group);
+    let overtimeLeft = allocation?.hours ?? 0;
+    for (let index = 1; index <= group.headcount; index++) {
+      const overtime = allocation && index <= allocation.workers ? Math.min(allocation.hoursPerWorker, overtimeLeft) : 0;
+      overtimeLeft = roundHours(overtimeLeft - overtime);
+      workers.push({
+        id: `g${groupIndex}-${index}`,
+        name: `${group.role} ${index}`,
+        role: group.role,
+        kind: 'existing',
+        contractHours,
+        maxHours: contractHours + overtime,
+      });
+    }
+  });
+
+  if (mix.hire) {
+    const { group } = mix.hire;
+    const hires = [
+      ...Array<number>(mix.hire.workers).fill(group.targetWeekHours),
+      ...Array<number>(mix.hire.partTimeWorkers).fill(mix.hire.partTimeHours),
+    ];
+    hires.forEach((hours, index) =>
+      workers.push({
+        id: `hire-${index + 1}`,
+        name: `New hire ${index + 1}`,
+        role: group.role,
+        kind: 'new-hire',
+        contractHours: hours,
+        maxHours: hours,
+      })
+    );
+  }
+
+  if (mix.agency) {
+    // Agency hours split into week-long bookings of at most 40 hours
+    let remaining = mix.agency.bookedHours;
+    for (let index = 1; remaining > 0; index++) {
+      const hours = Math.min(40, remaining);
+      workers.push({
+        id: `agency-${index}`,
+        name: `Agency ${index}`,
+        role: mix.agency.group.role,
+        kind: 'agency',
+        contractHours: hours,
+        maxHours: hours,
+      });
+      remaining -= hours;
+    }
+  }
+
+  return workers;
+}
+
+// Who should take a slot first: existing workers within their scheduled
+// hours, then new hires, then existing workers on overtime, then agency
+function priority(worker: RosterWorker, hoursAfter: number): number {
+  if (worker.kind === 'agency') return 3;
+  if (hoursAfter > worker.contractHours) return 2;
+  return worker.kind === 'existing' ? 0 : 1;
+}
+
+// Draft a weekly roster for a proposal: fill each template's slots day by
+// day, never going past a worker's maximum hours, giving anyone two
+// shifts a day or breaking the fatigue rules
+export function generateRoster(
+  inputs: CalculatorInputs,
+  mix: ProposalMix,
+  templates: ShiftTemplate[],
+  rules: FatigueRules
+): RosterRow[] {
+  const rows: RosterRow[] = rosterWorkers(inputs, mix).map((worker) => ({
+    worker,
+    shifts: DAYS.map(() => null),
+  }));
+  const hours = new Map<RosterRow, number>(rows.map((row) => [row, 0]));
+  const order = templates
+    .map((template, index) => ({ template, index }))
+    .sort((a, b) => parseTime(a.template.start) - parseTime(b.template.start));
+
+  DAYS.forEach((_, day) => {
+    order.forEach(({ template, index }) => {
+      if (!template.days[day]) {
+        return;
+      }
+
+      const paidHours = shiftPaidHours(template);
+      if (paidHours > rules.maxDailyHours) {
+        return;
+      }
+
+      for (let slot = 0; slot < template.requiredHeadcount; slot++) {
+        let best: RosterRow | null = null;
+        let bestPriority = Infinity;
+
+        for (const row of rows) {
+          const hoursAfter = (hours.get(row) ?? 0) + paidHours;
+          if (row.shifts[day] !== null || hoursAfter > row.worker.maxHours + 1e-9) {
+            continue;
+          }
+          const rest = restAround(row, templates, day, index);
+          const run = longestRun(row.shifts.map((shift, d) => (d === day ? index : shift)));
+          if (Math.min(rest.before, rest.after) < rules.minRestHours || run > rules.maxConsecutiveDays) {
+            continue;
+          }
+
+          const rank = priority(row.worker, hoursAfter);
+          // Within a tier, spread shifts to whoever has the fewest hours
+          if (!best || rank < bestPriority || (rank === bestPriority && (hours.get(row) ?? 0) < (hours.get(best) ?? 0))) {
+            best = row;
+            bestPriority = rank;
+          }
+        }
+
+        // Nobody left who can take this shift
+        if (!best) {
+          break;
+        }
+        best.shifts[day] = index;
+        hours.set(best, (hours.get(best) ?? 0) + paidHours);
+      }
+    });
+  });
+
+  return rows;
+}
+
+// Hours per worker, broken limits and unstaffed slots in a roster
+export function checkRoster(rows: RosterRow[], templates: ShiftTemplate[], rules: FatigueRules): RosterCheck {
+  const hoursByWorker: Record<string, number> = {};
+  const issues: string[] = [];
+  const unfilled: UnfilledShift[] = [];
+
+  rows.forEach((row) => {
+    const { worker } = row;
+    const hours = rosteredHours(row, templates);
+    hoursByWorker[worker.id] = hours;
+
+    if (hours > worker.maxHours + 1e-9) {
+      issues.push(`${worker.name} is rostered ${hours}h, above their ${worker.maxHours}h limit`);
+    }
+
+    const run = longestRun(row.shifts);
+    if (run > rules.maxConsecutiveDays) {
+      issues.push(`${worker.name} works ${run} days in a row, above the ${rules.maxConsecutiveDays}-day limit`);
+    }
+
+    // Each short gap is reported once, against the shift that follows it
+    row.shifts.forEach((template, day) => {
+      if (template === null || !templates[template]) {
+        return;
+      }
+      const { before } = restAround(row, templates, day, template);
+      if (before < rules.minRestHours) {
+        issues.push(`${worker.name} gets only ${before}h rest before ${DAYS[day]} ${templates[template].name}`);
+      }
+      const paidHours = shiftPaidHours(templates[template]);
+      if (paidHours > rules.maxDailyHours) {
+        issues.push(`${worker.name} works ${paidHours}h on ${DAYS[day]}, above the ${rules.maxDailyHours}h daily limit`);
+      }
+    });
+  });
+
+  templates.forEach((template, index) => {
+    DAYS.forEach((_, day) => {
+      if (!template.days[day]) {
+        return;
+      }
+      const staffed = rows.filter((row) => row.shifts[day] === index).length;
+      if (staffed < template.requiredHeadcount) {
+        unfilled.push({ day, template: index, missing: template.requiredHeadcount - staffed });
+      }
+    });
+  });
+
+  return { hoursByWorker, issues, unfilled };
+}
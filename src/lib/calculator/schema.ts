@@ -0,0 +1,327 @@
+import { z } from 'zod';
+import { isIsoDate } from './holidays';
+import { nextMonday } from './ical';
+import { getLaborLawPack } from './labor-law';
+import { DEFAULT_OVERTIME_RULE } from './overtime';
+import { toWeekly } from './pay-period';
+import { shiftLength } from './roster';
+import { CalculatorInputs } from './types';
+
+// Overtime rule validation schema
+export const overtimeRuleSchema = z.object({
+  trigger: z.enum(['scheduled', 'daily', 'weekly']),
+  tiers: z
+    .array(
+      z.object({
+        threshold: z.number().min(0, 'Threshold cannot be negative').max(168, 'Cannot exceed 168 hours per week'),
+        multiplier: z.number().min(1, 'Multiplier must be at least 1').max(5, 'Multiplier too high'),
+      })
+    )
+    .min(1, 'Add at least one overtime tier')
+    .max(4, 'Too many overtime tiers'),
+  daysPerWeek: z.number().int('Days per week must be a whole number').min(1, 'Must work at least 1 day').max(7, 'Cannot exceed 7 days per week'),
+  sundayMultiplier: z.number().min(1, 'Sunday multiplier must be at least 1').max(5, 'Sunday multiplier too high'),
+});
+
+// Worker group validation schema
+export const workerGroupSchema = z.object({
+  role: z.string().trim().min(1, 'Role name is required').max(50, 'Role name too long'),
+  headcount: z.number().int('Headcount must be a whole number').min(1, 'Must have at least 1 worker').max(10000, 'Too many workers'),
+  hourlyRate: z.number().min(0.01, 'Hourly rate must be positive').max(1000, 'Hourly rate too high'),
+  currentWeekHours: z.number().min(1, 'Current week hours per worker must be at least 1').max(168, 'Cannot exceed 168 hours per week'),
+  targetWeekHours: z.number().min(1, 'Target week hours per worker must be at least 1').max(168, 'Cannot exceed 168 hours per week'),
+  maxExtraHours: z.number().min(0, 'Max extra hours per worker cannot be negative').max(50, 'Max extra hours per worker too high'),
+});
+
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Shift template validation schema
+export const shiftTemplateSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Shift name is required').max(30, 'Shift name too long'),
+    start: z.string().regex(timePattern, 'Start must be a time like 08:00'),
+    end: z.string().regex(timePattern, 'End must be a time like 16:30'),
+    breakMinutes: z.number().int('Break must be whole minutes').min(0, 'Break cannot be negative').max(240, 'Break too long'),
+    requiredHeadcount: z.number().int('Headcount must be a whole number').min(0, 'Headcount cannot be negative').max(1000, 'Headcount too high'),
+    days: z.array(z.boolean()).length(7),
+  })
+  .refine((template) => template.breakMinutes / 60 < shiftLength(template), {
+    message: 'Break must be shorter than the shift',
+    path: ['breakMinutes'],
+  });
+
+// Shift differential validation schema
+export const shiftDifferentialSchema = z.object({
+  name: z.string().trim().min(1, 'Differential name is required').max(30, 'Differential name too long'),
+  days: z.array(z.boolean()).length(7),
+  start: z.string().regex(timePattern, 'Start must be a time like 22:00'),
+  end: z.string().regex(timePattern, 'End must be a time like 06:00'),
+  kind: z.enum(['flat', 'percent']),
+  amount: z.number().min(0, 'Differential cannot be negative').max(1000, 'Differential too high'),
+});
+
+// Public holiday validation schema
+export const holidaySchema = z.object({
+  date: z.string().refine(isIsoDate, 'Date must be like 2026-12-25'),
+  name: z.string().trim().min(1, 'Holiday name is required').max(50, 'Holiday name too long'),
+});
+
+// Pay period validation schema
+export const payPeriodSchema = z.enum(['weekly', 'biweekly', 'semimonthly', 'monthly', 'annual']);
+
+// min <= likely <= max, each within the given bounds
+function triangularSchema(low: number, high: number) {
+  return z
+    .object({
+      min: z.number().min(low, `Cannot be below ${low}`).max(high, `Cannot exceed ${high}`),
+      likely: z.number().min(low, `Cannot be below ${low}`).max(high, `Cannot exceed ${high}`),
+      max: z.number().min(low, `Cannot be below ${low}`).max(high, `Cannot exceed ${high}`),
+    })
+    .refine((distribution) => distribution.min <= distribution.likely && distribution.likely <= distribution.max, {
+      message: 'Minimum, most likely and maximum must be in increasing order',
+      path: ['likely'],
+    });
+}
+
+// Form validation schema
+export const calculatorSchema = z.object({
+  workerGroups: z.array(workerGroupSchema).min(1, 'Add at least one worker group').max(20, 'Too many worker groups'),
+  partTimeHiring: z.object({
+    enabled: z.boolean(),
+    minShiftHours: z.number().min(1, 'Minimum part-time shift must be at least 1 hour').max(24, 'Cannot exceed 24 hours'),
+  }),
+  agencyStaffing: z.object({
+    enabled: z.boolean(),
+    markupPercent: z.number().min(0, 'Markup cannot be negative').max(300, 'Markup too high'),
+    minBookingHours: z.number().min(1, 'Minimum booking must be at least 1 hour').max(40, 'Minimum booking too long'),
+    maxWeeklyHours: z.number().min(0, 'Availability cannot be negative').max(100000, 'Availability too high'),
+  }),
+  // Benefits and the budget may be given per pay period; the bounds
+  // apply to their weekly equivalents
+  laborBurden: z
+    .object({
+      employerTaxPercent: z.number().min(0, 'Employer tax cannot be negative').max(100, 'Employer tax cannot exceed 100%'),
+      benefitsPerHead: z.number().min(0, 'Benefits cost cannot be negative'),
+      benefitsPeriod: payPeriodSchema,
+      hiringCostPerHead: z.number().min(0, 'Hiring cost cannot be negative').max(1000000, 'Hiring cost too high'),
+      amortizationWeeks: z.number().int('Horizon must be a whole number of weeks').min(1, 'Horizon must be at least 1 week').max(520, 'Horizon cannot exceed 520 weeks'),
+    })
+    .refine((burden) => toWeekly(burden.benefitsPerHead, burden.benefitsPeriod) <= 10000, {
+      message: 'Benefits cost too high',
+      path: ['benefitsPerHead'],
+    }),
+  weeklyBudget: z
+    .object({
+      enabled: z.boolean(),
+      maxSpend: z.number().min(0, 'Budget cannot be negative'),
+      period: payPeriodSchema,
+    })
+    .refine((budget) => toWeekly(budget.maxSpend, budget.period) <= 100000000, {
+      message: 'Budget too high',
+      path: ['maxSpend'],
+    }),
+  uncoveredCost: z.object({
+    enabled: z.boolean(),
+    lostRevenuePerHour: z.number().min(0, 'Lost revenue cannot be negative').max(100000, 'Lost revenue too high'),
+    penaltyPerHour: z.number().min(0, 'Penalty cannot be negative').max(100000, 'Penalty too high'),
+  }),
+  absenceRates: z.object({
+    absenceRatePercent: z.number().min(0, 'Absence rate cannot be negative').max(90, 'Absence rate cannot exceed 90%'),
+    monthlyAttritionPercent: z.number().min(0, 'Attrition cannot be negative').max(100, 'Attrition cannot exceed 100%'),
+    vacancyWeeks: z.number().int('Vacancy must be a whole number of weeks').min(0, 'Vacancy cannot be negative').max(52, 'Vacancy cannot exceed 52 weeks'),
+  }),
+  holidayCalendar: z.object({
+    enabled: z.boolean(),
+    calendar: z.enum(['us', 'gb', 'de', 'fr', 'custom']),
+    customHolidays: z.array(holidaySchema).max(100, 'Too many holidays'),
+    weekStart: z.string().refine(isIsoDate, 'Week start must be a date like 2026-12-21'),
+    premiumMultiplier: z.number().min(1, 'Holiday premium must be at least 1').max(5, 'Holiday premium too high'),
+    takenOffPercent: z.number().min(0, 'Share taken off cannot be negative').max(100, 'Share taken off cannot exceed 100%'),
+  }),
+  uncertainty: z.object({
+    enabled: z.boolean(),
+    runs: z.number().int('Runs must be a whole number').min(100, 'Run at least 100 simulations').max(20000, 'Run at most 20,000 simulations'),
+    demandChangePercent: triangularSchema(-90, 500),
+    absenceRatePercent: triangularSchema(0, 90),
+  }),
+  seasonalDemand: z.object({
+    enabled: z.boolean(),
+    granularity: z.enum(['monthly', 'weekly']),
+    monthlyMultipliers: z.array(z.number().min(0, 'Multiplier cannot be negative').max(10, 'Multiplier too high')).length(12),
+    weeklyMultipliers: z.array(z.number().min(0, 'Multiplier cannot be negative').max(10, 'Multiplier too high')).length(52),
+  }),
+  planningHorizon: z.object({
+    enabled: z.boolean(),
+    weeks: z.number().int('Horizon must be a whole number of weeks').min(4, 'Horizon must be at least 4 weeks').max(52, 'Horizon cannot exceed 52 weeks'),
+    hiringLeadWeeks: z.number().int('Lead time must be a whole number of weeks').min(0, 'Lead time cannot be negative').max(52, 'Lead time cannot exceed 52 weeks'),
+    rampWeeks: z.number().int('Ramp-up must be a whole number of weeks').min(0, 'Ramp-up cannot be negative').max(52, 'Ramp-up cannot exceed 52 weeks'),
+    startingProductivityPercent: z.number().min(0, 'Starting productivity cannot be negative').max(100, 'Starting productivity cannot exceed 100%'),
+  }),
+  demandCurve: z.object({
+    enabled: z.boolean(),
+    required: z
+      .array(z.array(z.number().min(0, 'Required headcount cannot be negative').max(10000, 'Required headcount too high')).length(24))
+      .length(7),
+  }),
+  shiftTemplates: z.array(shiftTemplateSchema).max(12, 'Too many shift templates'),
+  shiftDifferentials: z.array(shiftDifferentialSchema).max(12, 'Too many differentials'),
+  fatigueRules: z.object({
+    minRestHours: z.number().min(0, 'Minimum rest cannot be negative').max(23, 'Minimum rest must leave time to work'),
+    maxConsecutiveDays: z.number().int('Consecutive days must be a whole number').min(1, 'Must allow at least 1 day').max(7, 'Cannot exceed 7 days'),
+    maxDailyHours: z.number().min(1, 'Must allow at least 1 hour per day').max(24, 'Cannot exceed 24 hours per day'),
+  }),
+  overtimeRule: overtimeRuleSchema,
+  laborLawPack: z.enum(['none', 'us-flsa', 'us-california', 'eu-wtd']),
+  complianceMode: z.enum(['flag', 'reject']),
+}).superRefine((data, ctx) => {
+  // A schedule that is itself over the legal cap can't be fixed by any proposal
+  const pack = getLaborLawPack(data.laborLawPack);
+  const maxWeeklyHours = pack.maxWeeklyHours;
+  if (data.complianceMode !== 'reject' || maxWeeklyHours === undefined) {
+    return;
+  }
+
+  data.workerGroups.forEach((group, index) => {
+    if (group.targetWeekHours > maxWeeklyHours) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `${pack.name} caps the average week at ${maxWeeklyHours} hours`,
+        path: ['workerGroups', index, 'targetWeekHours'],
+      });
+    }
+  });
+});
+
+export type CalculatorFormData = z.infer<typeof calculatorSchema>;
+
+// Values the calculator form starts with
+export const defaultCalculatorValues: CalculatorFormData = {
+  workerGroups: [
+    {
+      role: 'Worker',
+      headcount: 10,
+      hourlyRate: 25,
+      currentWeekHours: 40,
+      targetWeekHours: 50,
+      maxExtraHours: 5,
+    },
+  ],
+  partTimeHiring: {
+    enabled: true,
+    minShiftHours: 4,
+  },
+  agencyStaffing: {
+    enabled: false,
+    markupPercent: 35,
+    minBookingHours: 4,
+    maxWeeklyHours: 80,
+  },
+  laborBurden: {
+    employerTaxPercent: 0,
+    benefitsPerHead: 0,
+    benefitsPeriod: 'weekly',
+    hiringCostPerHead: 0,
+    amortizationWeeks: 52,
+  },
+  weeklyBudget: {
+    enabled: false,
+    maxSpend: 2000,
+    period: 'weekly',
+  },
+  uncoveredCost: {
+    enabled: false,
+    lostRevenuePerHour: 60,
+    penaltyPerHour: 0,
+  },
+  absenceRates: {
+    absenceRatePercent: 0,
+    monthlyAttritionPercent: 0,
+    vacancyWeeks: 6,
+  },
+  holidayCalendar: {
+    enabled: false,
+    calendar: 'us',
+    customHolidays: [],
+    weekStart: nextMonday(),
+    premiumMultiplier: 1.5,
+    takenOffPercent: 50,
+  },
+  uncertainty: {
+    enabled: false,
+    runs: 2000,
+    demandChangePercent: { min: -10, likely: 0, max: 10 },
+    absenceRatePercent: { min: 0, likely: 2, max: 8 },
+  },
+  seasonalDemand: {
+    enabled: false,
+    granularity: 'monthly',
+    // A slow start to the year and a peak in the run-up to the holidays
+    monthlyMultipliers: [0.9, 0.9, 1, 1, 1, 1.1, 1.1, 1, 1, 1, 1.2, 1.3],
+    weeklyMultipliers: Array<number>(52).fill(1),
+  },
+  planningHorizon: {
+    enabled: false,
+    weeks: 12,
+    hiringLeadWeeks: 4,
+    rampWeeks: 4,
+    startingProductivityPercent: 50,
+  },
+  demandCurve: {
+    enabled: false,
+    // 10 people on the floor 08:00-18:00 on weekdays
+    required: [0, 1, 2, 3, 4, 5, 6].map((day) =>
+      Array.from({ length: 24 }, (_, hour) => (day < 5 && hour >= 8 && hour < 18 ? 10 : 0))
+    ),
+  },
+  shiftTemplates: [
+    { name: 'Early', start: '08:00', end: '16:30', breakMinutes: 30, requiredHeadcount: 5, days: [true, true, true, true, true, false, false] },
+    { name: 'Late', start: '09:30', end: '18:00', breakMinutes: 30, requiredHeadcount: 5, days: [true, true, true, true, true, false, false] },
+  ],
+  shiftDifferentials: [
+    { name: 'Nights', days: [true, true, true, true, true, true, true], start: '22:00', end: '06:00', kind: 'flat', amount: 2 },
+    { name: 'Weekends', days: [false, false, false, false, false, true, true], start: '00:00', end: '00:00', kind: 'percent', amount: 25 },
+  ],
+  fatigueRules: {
+    minRestHours: 11,
+    maxConsecutiveDays: 6,
+    maxDailyHours: 12,
+  },
+  overtimeRule: DEFAULT_OVERTIME_RULE,
+  laborLawPack: 'none',
+  complianceMode: 'flag',
+};
+
+// Map validated form data to engine inputs, with figures given per
+// pay period brought back to weekly
+export function toCalculatorInputs(data: CalculatorFormData): CalculatorInputs {
+  return {
+    workerGroups: data.workerGroups.map((group) => ({ ...group })),
+    partTimeHiring: data.partTimeHiring,
+    agencyStaffing: data.agencyStaffing,
+    laborBurden: {
+      employerTaxPercent: data.laborBurden.employerTaxPercent,
+      benefitsPerHeadWeekly: toWeekly(data.laborBurden.benefitsPerHead, data.laborBurden.benefitsPeriod),
+      hiringCostPerHead: data.laborBurden.hiringCostPerHead,
+      amortizationWeeks: data.laborBurden.amortizationWeeks,
+    },
+    weeklyBudget: {
+      enabled: data.weeklyBudget.enabled,
+      maxWeeklySpend: toWeekly(data.weeklyBudget.maxSpend, data.weeklyBudget.period),
+    },
+    uncoveredCost: data.uncoveredCost,
+    absenceRates: data.absenceRates,
+    holidayCalendar: data.holidayCalendar,
+    uncertainty: data.uncertainty,
+    seasonalDemand: data.seasonalDemand,
+    planningHorizon: data.planningHorizon,
+    demandCurve: data.demandCurve,
+    shiftTemplates: data.shiftTemplates,
+    shiftDifferentials: data.shiftDifferentials,
+    fatigueRules: data.fatigueRules,
+    overtimeRule: data.overtimeRule,
+    laborLawPack: data.laborLawPack,
+    complianceMode: data.complianceMode,
+  };
+}
+
+export default calculatorSchema;
@@ -0,0 +1,133 @@
+import { round2 } from './cost';
+import { calculateProposals } from './engine';
+import { DEFAULT_OVERTIME_RULE } from './overtime';
+import { defaultStrategies } from './strategies';
+import { CalculatorInputs, ProposalStrategy, WorkerGroup } from './types';
+
+export type SensitivityDriver =
+  | 'headcount'
+  | 'currentWeekHours'
+  | 'targetWeekHours'
+  | 'hourlyRate'
+  | 'maxExtraHours'
+  | 'overtimeMultiplier';
+
+// A proposal's cost with one driver lowered and raised. low and high are
+// null where the strategy no longer applies; swing is the spread of
+// costs across low, base and high.
+export interface SensitivityBar {
+  driver: SensitivityDriver;
+  label: string;
+  low: number | null;
+  high: number | null;
+  swing: number;
+}
+
+// Drivers for one proposal, biggest swing first
+export interface ProposalSensitivity {
+  id: string;
+  option: string;
+  baseCost: number;
+  bars: SensitivityBar[];
+}
+
+export const sensitivityDrivers: Record<SensitivityDriver, string> = {
+  headcount: 'Workers',
+  currentWeekHours: 'Current hours',
+  targetWeekHours: 'Target hours',
+  hourlyRate: 'Hourly rate',
+  maxExtraHours: 'Overtime cap',
+  overtimeMultiplier: 'Overtime multiplier',
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Inputs with one driver scaled by factor in every worker group (or every
+// overtime tier), kept within the form's validation bounds
+export function scaleDriver(inputs: CalculatorInputs, driver: SensitivityDriver, factor: number): CalculatorInputs {
+  if (driver === 'overtimeMultiplier') {
+    const rule = inputs.overtimeRule ?? DEFAULT_OVERTIME_RULE;
+    return {
+      ...inputs,
+      overtimeRule: {
+        ...rule,
+        tiers: rule.tiers.map((tier) => ({ ...tier, multiplier: clamp(round2(tier.multiplier * factor), 1, 5) })),
+      },
+    };
+  }
+
+  const scale = (group: WorkerGroup): WorkerGroup => {
+    switch (driver) {
+      case 'headcount':
+        return { ...group, headcount: clamp(Math.round(group.headcount * factor), 1, 10000) };
+      case 'hourlyRate':
+        return { ...group, hourlyRate: clamp(round2(group.hourlyRate * factor), 0.01, 1000) };
+      case 'maxExtraHours':
+        return { ...group, maxExtraHours: clamp(round2(group.maxExtraHours * factor), 0, 50) };
+      default:
+        return { ...group, [driver]: clamp(round2(group[driver] * factor), 1, 168) };
+    }
+  };
+
+  return { ...inputs, workerGroups: inputs.workerGroups.map(scale) };
+}
+
+// Vary each driver by ±percent and recompute the base (wage) cost of
+// every proposal each strategy makes, matching proposals across reruns
+// by id. Demand curves and horizons don't change that cost, so they're
+// left out to keep the reruns quick.
+export function sensitivityAnalysis(
+  inputs: CalculatorInputs,
+  percent: number,
+  strategies: ProposalStrategy[] = defaultStrategies
+): ProposalSensitivity[] {
+  const base: CalculatorInputs = { ...inputs, demandCurve: undefined, planningHorizon: undefined };
+  const drivers = Object.keys(sensitivityDrivers) as SensitivityDriver[];
+
+  return strategies
+    .flatMap((strategy) => {
+      const proposals = calculateProposals(base, [strategy]).filter((proposal) => proposal.costImpact > 0);
+      if (proposals.length === 0) {
+        return [];
+      }
+
+      // Each driver's low and high costs, by proposal id
+      const costsOf = (variant: CalculatorInputs) =>
+        new Map(calculateProposals(variant, [strategy]).map((proposal) => [proposal.id, proposal.costImpact]));
+      const variants = drivers.map((driver) => ({
+        driver,
+        low: costsOf(scaleDriver(base, driver, 1 - percent / 100)),
+        high: costsOf(scaleDriver(base, driver, 1 + percent / 100)),
+      }));
+
+      return proposals.map((proposal) => {
+        const bars = variants.map(({ driver, low: lows, high: highs }) => {
+          const low = lows.get(proposal.id) ?? null;
+          const high = highs.get(proposal.id) ?? null;
+          const costs = [proposal.costImpact, low, high].filter((cost): cost is number => cost !== null);
+
+          return {
+            driver,
+            label: sensitivityDrivers[driver],
+            low,
+            high,
+            swing: round2(Math.max(...costs) - Math.min(...costs)),
+          };
+        });
+
+        return {
+          proposal,
+          sensitivity: {
+            id: proposal.id,
+            option: proposal.option,
+            baseCost: proposal.costImpact,
+            bars: bars.sort((a, b) => b.swing - a.swing),
+          },
+        };
+      });
+    })
+    .sort((a, b) => a.proposal.loadedCost - b.proposal.loadedCost)
+    .map(({ sensitivity }) => sensitivity);
+}
@@ -0,0 +1,485 @@
+import { budgetNote, withinBudget } from './budget';
+import { loadedCost, uncoveredHoursCost } from './cost';
+import { checkCompliance, getLaborLawPack } from './labor-law';
+import { costPercentage, roundHours } from './metrics';
+import { optimizeMix } from './optimizer';
+import { DEFAULT_OVERTIME_RULE, describeOvertimeRule } from './overtime';
+import {
+  AgencyPlan,
+  CalculatorInputs,
+  CalculatorMetrics,
+  HirePlan,
+  OptimizedMix,
+  OptimizerLever,
+  OvertimeAllocation,
+  PartTimeHiring,
+  Proposal,
+  ProposalMix,
+  ProposalStrategy,
+} from './types';
+import {
+  allocateOvertime,
+  chooseHire,
+  describeHire,
+  fatigueExtraHoursCap,
+  planAgency,
+  reducingWorkers,
+  scheduledHours,
+  workersInRole,
+} from './workforce';
+
+// Attach any legal limits the given weekly schedules would break
+function withCompliance(proposal: Proposal, inputs: CalculatorInputs, weeklyHoursPerWorker: number[]): Proposal {
+  const pack = getLaborLawPack(inputs.laborLawPack);
+  const rule = inputs.overtimeRule ?? DEFAULT_OVERTIME_RULE;
+  const complianceIssues = [
+    ...new Set(weeklyHoursPerWorker.flatMap((hours) => checkCompliance(pack, hours, rule.daysPerWeek))),
+  ];
+
+  return complianceIssues.length > 0 ? { ...proposal, complianceIssues } : proposal;
+}
+
+// Summary of the overtime rule plus any statutory minimums
+function overtimeRuleSummary(inputs: CalculatorInputs): string {
+  const pack = getLaborLawPack(inputs.laborLawPack);
+  const summary = describeOvertimeRule(inputs.overtimeRule ?? DEFAULT_OVERTIME_RULE);
+  return pack.overtimeRules.length > 0 ? `${summary}; ${pack.name} minimums apply` : summary;
+}
+
+// e.g. "4 workers (Senior) work up to 5 extra hours each (20h × $45.00)"
+function describeAllocation(allocation: OvertimeAllocation): string {
+  const rate = allocation.cost / allocation.hours;
+  return `${workersInRole(allocation.workers, allocation.group.role)} work up to ${allocation.hoursPerWorker} extra hours each (${allocation.hours}h × $${rate.toFixed(2)})`;
+}
+
+// What the hours being covered are for, e.g. "maintain 400 total hours ..."
+function coverageGoal(metrics: CalculatorMetrics): string {
+  return metrics.totalHoursToReplace > 0
+    ? `maintain ${metrics.totalRequiredHours} total hours while reducing individual hours to target`
+    : `reach ${metrics.totalRequiredHours} total hours`;
+}
+
+// Hours per worker are already at target in every group
+export const capacityMatchesStrategy: ProposalStrategy = (inputs, metrics) => {
+  if (metrics.totalHoursToCover > 0) {
+    return null;
+  }
+
+  return withCompliance({
+    id: 'capacity',
+    option: 'Current Capacity Matches Target',
+    description: 'Your current weekly hours per worker already match the target',
+    totalWeeklyHours: metrics.totalCurrentWeekHours,
+    uncoveredHours: 0,
+    costImpact: 0,
+    costPercentageChange: 0,
+    loadedCost: 0,
+    efficiency: 'Fully covered',
+    details: `Current: ${metrics.totalCurrentWeekHours} hours = Target: ${metrics.totalTargetWeekHours} hours`,
+    mix: { overtime: [] },
+  }, inputs, inputs.workerGroups.map((group) => group.currentWeekHours));
+};
+
+// e.g. " (6 paid hours idle)"
+function idleNote(idleHours: number): string {
+  return idleHours > 0 ? ` (${idleHours} paid hours idle)` : '';
+}
+
+// e.g. ". 34.78h of this hire (1 FTE) covers absence and attrition",
+// the hire's share of the absence cover in the hours being covered
+function absenceNote(metrics: CalculatorMetrics, hire: HirePlan, hoursNeeded: number): string {
+  if (metrics.absenceHours <= 0 || metrics.totalHoursToCover <= 0) {
+    return '';
+  }
+
+  const hours = roundHours((hoursNeeded * metrics.absenceHours) / metrics.totalHoursToCover);
+  const fullTimeEquivalent = Math.round((hours / hire.group.targetWeekHours) * 10) / 10;
+  return `. ${hours}h of this hire (${fullTimeEquivalent} FTE) covers absence and attrition`;
+}
+
+// Cover nothing and absorb the lost revenue and penalties instead, so
+// the other proposals can be weighed against doing nothing. Only offered
+// when uncovered hours are priced.
+export const leaveUncoveredStrategy: ProposalStrategy = (inputs, metrics) => {
+  const { totalHoursToCover } = metrics;
+  if (!inputs.uncoveredCost?.enabled || totalHoursToCover <= 0) {
+    return null;
+  }
+
+  const { lostRevenuePerHour, penaltyPerHour } = inputs.uncoveredCost;
+  return withCompliance({
+    id: 'leaveUncovered',
+    option: 'Leave the Gap Uncovered',
+    description: `Cover none of the ${totalHoursToCover} missing hours and absorb the lost revenue and penalties`,
+    totalWeeklyHours: roundHours(metrics.totalRequiredHours - totalHoursToCover),
+    uncoveredHours: totalHoursToCover,
+    costImpact: 0,
+    costPercentageChange: 0,
+    loadedCost: 0,
+    efficiency: 'Partially covered',
+    details: `${totalHoursToCover} hours uncovered × $${(lostRevenuePerHour + penaltyPerHour).toFixed(2)} ($${lostRevenuePerHour.toFixed(2)} lost revenue + $${penaltyPerHour.toFixed(2)} penalty per hour) = $${uncoveredHoursCost(totalHoursToCover, inputs.uncoveredCost).toLocaleString()} a week`,
+    mix: { overtime: [] },
+  }, inputs, inputs.workerGroups.map(scheduledHours));
+};
+
+// Hire into the cheapest role to cover every missing hour
+function hireProposal(inputs: CalculatorInputs, metrics: CalculatorMetrics, partTime?: PartTimeHiring): Proposal | null {
+  const { totalHoursToCover } = metrics;
+  const hire = totalHoursToCover > 0 ? chooseHire(inputs, totalHoursToCover, partTime) : null;
+  if (!hire || (partTime && hire.partTimeWorkers === 0)) {
+    return null;
+  }
+
+  return withCompliance({
+    id: partTime ? 'mixedHire' : 'hire',
+    option: partTime ? 'Hire Full-time + Part-time Workers' : 'Hire Additional Workers',
+    description: `Hire ${describeHire(hire, 'additional')} to ${coverageGoal(metrics)}`,
+    totalWeeklyHours: roundHours(metrics.totalRequiredHours + hire.idleHours),
+    uncoveredHours: 0,
+    idleHours: hire.idleHours,
+    costImpact: hire.cost,
+    costPercentageChange: costPercentage(hire.cost, metrics),
+    loadedCost: loadedCost(hire.cost, hire.workers + hire.partTimeWorkers, inputs.laborBurden),
+    efficiency: 'Fully covered',
+    details: `Need to cover ${totalHoursToCover} hours. Hiring ${describeHire(hire)} = ${hire.hours} hours at $${hire.hourlyRate.toFixed(2)}${idleNote(hire.idleHours)}${absenceNote(metrics, hire, totalHoursToCover)}. Cost: $${hire.cost.toLocaleString()}`,
+    mix: { overtime: [], hire },
+  }, inputs, [...inputs.workerGroups.map(scheduledHours), hire.group.targetWeekHours]);
+}
+
+// Hire full-time workers only
+export const hireWorkersStrategy: ProposalStrategy = (inputs, metrics) => hireProposal(inputs, metrics);
+
+// Hire full-time workers plus a part-timer for the last fraction of a week
+export const mixedHireStrategy: ProposalStrategy = (inputs, metrics) =>
+  inputs.partTimeHiring?.enabled ? hireProposal(inputs, metrics, inputs.partTimeHiring) : null;
+
+// e.g. ". Fatigue rules cap Worker overtime at 2h per worker (at most 10h per day)"
+// when those caps left hours for someone else to cover
+function fatigueNote(inputs: CalculatorInputs, remainingHours: number): string {
+  if (remainingHours <= 0) {
+    return '';
+  }
+
+  const limits = inputs.workerGroups
+    .map((group) => ({ group, ...fatigueExtraHoursCap(group, inputs) }))
+    .filter((limit) => limit.cap < limit.group.maxExtraHours)
+    .map((limit) => `${limit.group.role} overtime at ${limit.cap}h per worker (${limit.rule})`);
+
+  return limits.length > 0 ? `. Fatigue rules cap ${limits.join(', ')}` : '';
+}
+
+// Overtime handed to the cheapest groups, and the figures derived from it
+function planOvertime(inputs: CalculatorInputs, metrics: CalculatorMetrics) {
+  const allocations = metrics.totalHoursToCover > 0 ? allocateOvertime(inputs, metrics.totalHoursToCover) : [];
+  const extraHours = allocations.reduce((sum, allocation) => sum + allocation.hours, 0);
+  const remainingHours = roundHours(metrics.totalHoursToCover - extraHours);
+
+  return {
+    allocations,
+    extraHours,
+    extraCost: allocations.reduce((sum, allocation) => sum + allocation.cost, 0),
+    remainingHours,
+    fatigueNote: fatigueNote(inputs, remainingHours),
+    workers: allocations.map((allocation) => workersInRole(allocation.workers, allocation.group.role)).join(', '),
+    details: `${allocations.map(describeAllocation).join('; ')} (${overtimeRuleSummary(inputs)})`,
+    weeklyHours: [
+      ...inputs.workerGroups.map(scheduledHours),
+      ...allocations.map((allocation) => scheduledHours(allocation.group) + allocation.hoursPerWorker),
+    ],
+  };
+}
+
+// Cover the gap with overtime alone, as far as the caps allow
+export const overtimeStrategy: ProposalStrategy = (inputs, metrics) => {
+  const overtime = planOvertime(inputs, metrics);
+  if (overtime.allocations.length === 0) {
+    return null;
+  }
+
+  const uncoveredHours = Math.max(0, overtime.remainingHours);
+  const isReducing = metrics.totalHoursToReplace > 0;
+
+  return withCompliance({
+    id: 'overtime',
+    option: isReducing ? 'Redistribute Hours with Overtime' : 'Cover Deficit with Overtime',
+    description: isReducing
+      ? `Reduce ${reducingWorkers(inputs.workerGroups)} workers to target hours, add overtime to ${overtime.workers}`
+      : `Add overtime to ${overtime.workers} to ${coverageGoal(metrics)}`,
+    totalWeeklyHours: roundHours(metrics.totalRequiredHours - uncoveredHours),
+    uncoveredHours,
+    costImpact: overtime.extraCost,
+    costPercentageChange: costPercentage(overtime.extraCost, metrics),
+    loadedCost: loadedCost(overtime.extraCost, 0, inputs.laborBurden),
+    efficiency: uncoveredHours > 0 ? 'Partially covered' : 'Fully covered',
+    details:
+      `${overtime.details} = $${overtime.extraCost.toLocaleString()}` +
+      (uncoveredHours > 0
+        ? `. Overtime caps allow ${overtime.extraHours} of ${metrics.totalHoursToCover} hours; ${uncoveredHours} hours remain uncovered`
+        : '') +
+      overtime.fatigueNote,
+    mix: { overtime: overtime.allocations },
+  }, inputs, overtime.weeklyHours);
+};
+
+// Overtime up to the caps, hiring for whatever overtime can't cover
+function hybridProposal(inputs: CalculatorInputs, metrics: CalculatorMetrics, partTime?: PartTimeHiring): Proposal | null {
+  const overtime = planOvertime(inputs, metrics);
+  if (overtime.allocations.length === 0 || overtime.remainingHours <= 0) {
+    return null;
+  }
+
+  const hire = chooseHire(inputs, overtime.remainingHours, partTime);
+  if (!hire || (partTime && hire.partTimeWorkers === 0)) {
+    return null;
+  }
+  const totalCombinedCost = overtime.extraCost + hire.cost;
+
+  return withCompliance({
+    id: partTime ? 'partTimeHybrid' : 'hybrid',
+    option: partTime ? 'Hybrid: Overtime + Part-time Hire' : 'Hybrid: Overtime + Additional Workers',
+    description: `Add overtime to ${overtime.workers} and hire ${describeHire(hire, 'additional')} to ${coverageGoal(metrics)}`,
+    totalWeeklyHours: roundHours(metrics.totalRequiredHours + hire.idleHours),
+    uncoveredHours: 0,
+    idleHours: hire.idleHours,
+    costImpact: totalCombinedCost,
+    costPercentageChange: costPercentage(totalCombinedCost, metrics),
+    loadedCost: loadedCost(totalCombinedCost, hire.workers + hire.partTimeWorkers, inputs.laborBurden),
+    efficiency: 'Fully covered',
+    details: `${overtime.details} + ${describeHire(hire, 'new')} = ${hire.hours} hours${idleNote(hire.idleHours)}${absenceNote(metrics, hire, overtime.remainingHours)}. Total cost: $${totalCombinedCost.toLocaleString()}${overtime.fatigueNote}`,
+    mix: { overtime: overtime.allocations, hire },
+  }, inputs, [...overtime.weeklyHours, hire.group.targetWeekHours]);
+}
+
+export const hybridStrategy: ProposalStrategy = (inputs, metrics) => hybridProposal(inputs, metrics);
+
+// Overtime up to the caps, with a part-timer for the remaining fraction
+export const partTimeHybridStrategy: ProposalStrategy = (inputs, metrics) =>
+  inputs.partTimeHiring?.enabled ? hybridProposal(inputs, metrics, inputs.partTimeHiring) : null;
+
+// e.g. "40 agency hours (Worker) at $33.75"
+function describeAgency(agency: AgencyPlan): string {
+  return `${agency.bookedHours} agency hours (${agency.group.role}) at $${agency.hourlyRate.toFixed(2)}`;
+}
+
+// Book agency staff for the gap, up to what the agency can supply.
+// Agency staff are paid by the agency, so the markup is their whole burden.
+export const agencyStrategy: ProposalStrategy = (inputs, metrics) => {
+  const agency =
+    inputs.agencyStaffing?.enabled && metrics.totalHoursToCover > 0
+      ? planAgency(inputs, metrics.totalHoursToCover, inputs.agencyStaffing)
+      : null;
+  if (!agency) {
+    return null;
+  }
+
+  const uncoveredHours = roundHours(metrics.totalHoursToCover - agency.coveredHours);
+
+  return withCompliance({
+    id: 'agency',
+    option: 'Cover with Agency Staff',
+    description: `Book ${describeAgency(agency)} to ${coverageGoal(metrics)}`,
+    totalWeeklyHours: roundHours(metrics.totalRequiredHours - uncoveredHours + agency.idleHours),
+    uncoveredHours,
+    idleHours: agency.idleHours,
+    costImpact: agency.cost,
+    costPercentageChange: costPercentage(agency.cost, metrics),
+    loadedCost: agency.cost,
+    efficiency: uncoveredHours > 0 ? 'Partially covered' : 'Fully covered',
+    details:
+      `Need to cover ${metrics.totalHoursToCover} hours. Booking ${describeAgency(agency)} (${inputs.agencyStaffing?.markupPercent}% markup, ${inputs.agencyStaffing?.minBookingHours}h blocks)${idleNote(agency.idleHours)}. Cost: $${agency.cost.toLocaleString()}` +
+      (uncoveredHours > 0 ? `. The agency can supply ${agency.bookedHours} hours; ${uncoveredHours} hours remain uncovered` : ''),
+    mix: { overtime: [], agency },
+  }, inputs, inputs.workerGroups.map(scheduledHours));
+};
+
+// Overtime up to the caps, with agency staff for whatever overtime can't cover
+export const agencyHybridStrategy: ProposalStrategy = (inputs, metrics) => {
+  if (!inputs.agencyStaffing?.enabled) {
+    return null;
+  }
+
+  const overtime = planOvertime(inputs, metrics);
+  if (overtime.allocations.length === 0 || overtime.remainingHours <= 0) {
+    return null;
+  }
+
+  const agency = planAgency(inputs, overtime.remainingHours, inputs.agencyStaffing);
+  if (!agency) {
+    return null;
+  }
+
+  const uncoveredHours = roundHours(overtime.remainingHours - agency.coveredHours);
+  const totalCombinedCost = overtime.extraCost + agency.cost;
+  const totalLoadedCost = loadedCost(overtime.extraCost, 0, inputs.laborBurden) + agency.cost;
+
+  return withCompliance({
+    id: 'agencyHybrid',
+    option: 'Hybrid: Overtime + Agency Staff',
+    description: `Add overtime to ${overtime.workers} and book ${describeAgency(agency)} to ${coverageGoal(metrics)}`,
+    totalWeeklyHours: roundHours(metrics.totalRequiredHours - uncoveredHours + agency.idleHours),
+    uncoveredHours,
+    idleHours: agency.idleHours,
+    costImpact: totalCombinedCost,
+    costPercentageChange: costPercentage(totalCombinedCost, metrics),
+    loadedCost: totalLoadedCost,
+    efficiency: uncoveredHours > 0 ? 'Partially covered' : 'Fully covered',
+    details:
+      `${overtime.details} + ${describeAgency(agency)} = ${agency.coveredHours} hours${idleNote(agency.idleHours)}. Total cost: $${totalCombinedCost.toLocaleString()}` +
+      (uncoveredHours > 0 ? `. ${uncoveredHours} hours remain uncovered` : '') +
+      overtime.fatigueNote,
+    mix: { overtime: overtime.allocations, agency },
+  }, inputs, overtime.weeklyHours);
+};
+
+// Runners-up shown after the optimal mix
+const OPTIMIZER_RUNNERS_UP = 2;
+
+const leverLabels: Record<OptimizerLever, string> = {
+  overtime: 'Overtime',
+  hire: 'Hiring',
+  agency: 'Agency Staff',
+};
+
+// The optimal mix, or its runner-up without one lever. sameAs names the
+// fixed strategy that already proposes the same mix, if any.
+function optimizedProposal(
+  inputs: CalculatorInputs,
+  metrics: CalculatorMetrics,
+  optimized: OptimizedMix,
+  without?: OptimizerLever,
+  sameAs?: string
+): Proposal {
+  const { overtime, hire, agency } = optimized.mix;
+  const parts = [
+    ...(overtime.length > 0 ? [`${overtime.map(describeAllocation).join('; ')} (${overtimeRuleSummary(inputs)})`] : []),
+    ...(hire ? [`${describeHire(hire, 'new')} = ${hire.hours} hours`] : []),
+    ...(agency ? [`${describeAgency(agency)} = ${agency.coveredHours} hours`] : []),
+  ];
+  const levers = optimized.levers.map((lever) => leverLabels[lever].toLowerCase()).join(' + ');
+  const budget = inputs.weeklyBudget;
+  const coveredHours = roundHours(metrics.totalHoursToCover - optimized.uncoveredHours);
+  const goal =
+    optimized.uncoveredHours > 0
+      ? `cover ${coveredHours} of the ${metrics.totalHoursToCover} hours needed`
+      : coverageGoal(metrics);
+
+  return withCompliance({
+    id: without ? `optimal-without-${without}` : 'optimal',
+    option: without
+      ? `Runner-up: Optimal Mix without ${leverLabels[without]}`
+      : `Optimal Mix${sameAs ? ` (same as ${sameAs})` : ''}`,
+    description: without
+      ? `Cheapest mix without ${leverLabels[without].toLowerCase()}: ${levers} to ${goal}`
+      : `Lowest loaded cost of every overtime, hiring and agency combination: ${levers} to ${goal}`,
+    totalWeeklyHours: roundHours(metrics.totalRequiredHours - optimized.uncoveredHours + optimized.idleHours),
+    uncoveredHours: optimized.uncoveredHours,
+    idleHours: optimized.idleHours,
+    costImpact: optimized.wages,
+    costPercentageChange: costPercentage(optimized.wages, metrics),
+    loadedCost: optimized.loadedCost,
+    efficiency: optimized.uncoveredHours > 0 ? 'Partially covered' : 'Fully covered',
+    details:
+      `${parts.join(' + ')}${idleNote(optimized.idleHours)}` +
+      (hire ? absenceNote(metrics, hire, coveredHours) : '') +
+      `. Total cost: $${optimized.wages.toLocaleString()}` +
+      (budget?.enabled && optimized.uncoveredHours > 0
+        ? budgetNote(budget.maxWeeklySpend, coveredHours, metrics.totalHoursToCover)
+        : ''),
+    mix: optimized.mix,
+  }, inputs, [
+    ...inputs.workerGroups.map(scheduledHours),
+    ...overtime.map((allocation) => scheduledHours(allocation.group) + allocation.hoursPerWorker),
+    ...(hire ? [hire.group.targetWeekHours] : []),
+  ]);
+}
+
+// Overtime per role, hires and agency hours a mix comes to, so mixes
+// reached different ways can be compared
+function mixKey(mix: ProposalMix): string {
+  return JSON.stringify([
+    mix.overtime
+      .filter((allocation) => allocation.hours > 0)
+      .map((allocation) => `${allocation.group.role}:${allocation.hours}`)
+      .sort(),
+    mix.hire ? [mix.hire.group.role, mix.hire.workers, mix.hire.partTimeHours] : null,
+    mix.agency ? [mix.agency.group.role, mix.agency.bookedHours] : null,
+  ]);
+}
+
+// Options of the fixed strategies keyed by the mix they propose, trimmed
+// to any budget as the engine trims them
+function fixedStrategyMixes(inputs: CalculatorInputs, metrics: CalculatorMetrics, budget: number): Map<string, string> {
+  const fixed = [
+    hireWorkersStrategy,
+    mixedHireStrategy,
+    overtimeStrategy,
+    hybridStrategy,
+    partTimeHybridStrategy,
+    agencyStrategy,
+    agencyHybridStrategy,
+  ];
+  const mixes = fixed.flatMap((strategy): [string, string][] => {
+    const result = strategy(inputs, metrics);
+    const proposal =
+      result && !Array.isArray(result) && result.loadedCost > budget
+        ? withinBudget(strategy, inputs, metrics, budget)
+        : result;
+    return proposal && !Array.isArray(proposal) && proposal.mix ? [[mixKey(proposal.mix), proposal.option]] : [];
+  });
+  // The first strategy to propose a mix names it
+  return new Map(mixes.reverse());
+}
+
+// Search all combinations for the cheapest full cover, or the most cover
+// within the weekly budget. Runners-up are the best mixes without each
+// lever the optimum pulls, unless a fixed strategy already proposes them;
+// an optimum a fixed strategy proposes says which.
+export const optimizedMixStrategy: ProposalStrategy = (inputs, metrics) => {
+  const budget = inputs.weeklyBudget?.enabled ? inputs.weeklyBudget.maxWeeklySpend : Infinity;
+  const optimal = optimizeMix(inputs, metrics.totalHoursToCover, [], budget);
+  if (!optimal) {
+    return null;
+  }
+
+  const fixedMixes = optimal.levers.length > 0 ? fixedStrategyMixes(inputs, metrics, budget) : new Map<string, string>();
+  const runnersUp = optimal.levers
+    .map((lever) => ({ lever, optimized: optimizeMix(inputs, metrics.totalHoursToCover, [lever], budget) }))
+    .filter((runnerUp): runnerUp is { lever: OptimizerLever; optimized: OptimizedMix } => runnerUp.optimized !== null)
+    .filter((runnerUp) => !fixedMixes.has(mixKey(runnerUp.optimized.mix)))
+    .sort(
+      (a, b) =>
+        a.optimized.uncoveredHours - b.optimized.uncoveredHours || a.optimized.loadedCost - b.optimized.loadedCost
+    )
+    .slice(0, OPTIMIZER_RUNNERS_UP);
+
+  return [
+    optimizedProposal(inputs, metrics, optimal, undefined, fixedMixes.get(mixKey(optimal.mix))),
+    ...runnersUp.map(({ lever, optimized }) => optimizedProposal(inputs, metrics, optimized, lever)),
+  ];
+};
+
+// Strategies evaluated by the engine, in order
+export const defaultStrategies: ProposalStrategy[] = [
+  hireWorkersStrategy,
+  mixedHireStrategy,
+  overtimeStrategy,
+  hybridStrategy,
+  partTimeHybridStrategy,
+  agencyStrategy,
+  agencyHybridStrategy,
+  optimizedMixStrategy,
+  leaveUncoveredStrategy,
+  capacityMatchesStrategy,
+];
+
+// Strategies a user can pick out by name, e.g. to solve or forecast for
+export const strategyOptions: { id: string; label: string; strategy: ProposalStrategy }[] = [
+  { id: 'overtime', label: 'Overtime only', strategy: overtimeStrategy },
+  { id: 'hire', label: 'Hire full-time', strategy: hireWorkersStrategy },
+  { id: 'mixedHire', label: 'Hire full-time + part-time', strategy: mixedHireStrategy },
+  { id: 'hybrid', label: 'Overtime + hires', strategy: hybridStrategy },
+  { id: 'partTimeHybrid', label: 'Overtime + part-time hire', strategy: partTimeHybridStrategy },
+  { id: 'agency', label: 'Agency staff', strategy: agencyStrategy },
+  { id: 'agencyHybrid', label: 'Overtime + agency staff', strategy: agencyHybridStrategy },
+  { id: 'optimal', label: 'Optimal mix', strategy: optimizedMixStrategy },
+];
@@ -0,0 +1,435 @@
+// What an overtime threshold is measured against
+export type OvertimeTrigger = 'scheduled' | 'daily' | 'weekly';
+
+// Hours past the threshold are paid at the multiplier
+export interface OvertimeTier {
+  threshold: number;
+  multiplier: number;
+}
+
+// How extra hours are priced. Weekly hours are spread evenly over
+// daysPerWeek days, starting on Monday; the 7th day is Sunday.
+export interface OvertimeRule {
+  trigger: OvertimeTrigger;
+  tiers: OvertimeTier[];
+  daysPerWeek: number;
+  // 1 means Sunday hours earn no premium
+  sundayMultiplier: number;
+}
+
+export type LaborLawPackId = 'none' | 'us-flsa' | 'us-california' | 'eu-wtd';
+
+// 'flag' keeps non-compliant proposals and lists the issues; 'reject'
+// caps overtime at the legal limit and drops anything still over it
+export type ComplianceMode = 'flag' | 'reject';
+
+// Statutory rules for a jurisdiction
+export interface LaborLawPack {
+  id: LaborLawPackId;
+  name: string;
+  description: string;
+  // Minimum premiums the law requires on top of the site's own rule
+  overtimeRules: OvertimeRule[];
+  // Average weekly hours cap, including overtime
+  maxWeeklyHours?: number;
+  averagingWeeks?: number;
+  maxDailyHours?: number;
+}
+
+// Workers sharing a role, rate and schedule (hours are per worker)
+export interface WorkerGroup {
+  role: string;
+  headcount: number;
+  hourlyRate: number;
+  currentWeekHours: number;
+  targetWeekHours: number;
+  maxExtraHours: number;
+}
+
+// Whether hires may include a part-timer for the last fraction of a
+// full-time week, and the shortest week they can be booked for
+export interface PartTimeHiring {
+  enabled: boolean;
+  minShiftHours: number;
+}
+
+// Agency or contractor staff billed at a markup on the role's rate.
+// Bookings come in whole blocks of minBookingHours, up to the hours the
+// agency can supply each week.
+export interface AgencyStaffing {
+  enabled: boolean;
+  markupPercent: number;
+  minBookingHours: number;
+  maxWeeklyHours: number;
+}
+
+// Hours lost to sick leave and PTO, and to positions left empty after
+// someone quits until they're backfilled (vacancyWeeks on average)
+export interface AbsenceRates {
+  absenceRatePercent: number;
+  monthlyAttritionPercent: number;
+  vacancyWeeks: number;
+}
+
+export type HolidayCalendarId = 'us' | 'gb' | 'de' | 'fr';
+
+// A public holiday on an ISO date (YYYY-MM-DD)
+export interface Holiday {
+  date: string;
+  name: string;
+}
+
+// A country's public holidays, bundled as a local data file
+export interface HolidaySet {
+  id: HolidayCalendarId;
+  name: string;
+  holidays: Holiday[];
+}
+
+// Public holidays in the planned week, which starts on weekStart (and in
+// each week of the horizon after it). On a holiday that falls on a
+// workday, takenOffPercent of the team's hours are taken off and must be
+// covered, and every scheduled hour is paid at premiumMultiplier.
+export interface HolidayCalendar {
+  enabled: boolean;
+  calendar: HolidayCalendarId | 'custom';
+  customHolidays: Holiday[];
+  weekStart: string;
+  premiumMultiplier: number;
+  takenOffPercent: number;
+}
+
+// A triangular distribution: values from min to max, most often likely
+export interface TriangularDistribution {
+  min: number;
+  likely: number;
+  max: number;
+}
+
+// Week-to-week uncertainty simulated over `runs` weeks. Demand is a
+// percentage change to the hours that must be worked; the absence rate
+// replaces absenceRatePercent.
+export interface Uncertainty {
+  enabled: boolean;
+  runs: number;
+  demandChangePercent: TriangularDistribution;
+  absenceRatePercent: TriangularDistribution;
+}
+
+export type SeasonalGranularity = 'monthly' | 'weekly';
+
+// Demand through the year as multipliers on the hours that must be
+// worked (1 = as entered): one per month, or one per week of the year
+export interface SeasonalDemand {
+  enabled: boolean;
+  granularity: SeasonalGranularity;
+  monthlyMultipliers: number[];
+  weeklyMultipliers: number[];
+}
+
+// How often a figure recurs: the engine works per week, and the page
+// can show or take figures per pay period
+export type PayPeriod = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly' | 'annual';
+
+// Employer costs on top of wages. Payroll taxes apply to every paid
+// hour; benefits and recruiting only to new hires, with recruiting and
+// onboarding spread over amortizationWeeks.
+export interface LaborBurden {
+  employerTaxPercent: number;
+  benefitsPerHeadWeekly: number;
+  hiringCostPerHead: number;
+  amortizationWeeks: number;
+}
+
+// Most a week of added cover may cost, fully loaded. When enabled, each
+// strategy covers as much of the gap as the budget allows.
+export interface WeeklyBudget {
+  enabled: boolean;
+  maxWeeklySpend: number;
+}
+
+// What an hour of work left uncovered costs the business: revenue it
+// would have earned and any service-level penalty it triggers
+export interface UncoveredCost {
+  enabled: boolean;
+  lostRevenuePerHour: number;
+  penaltyPerHour: number;
+}
+
+// Horizon mode plans several weeks ahead. New hires start after
+// hiringLeadWeeks and ramp linearly from startingProductivityPercent to
+// full productivity over rampWeeks; overtime bridges the gap meanwhile.
+export interface PlanningHorizon {
+  enabled: boolean;
+  weeks: number;
+  hiringLeadWeeks: number;
+  rampWeeks: number;
+  startingProductivityPercent: number;
+}
+
+// Values per hour of the week, indexed [day][hour] with day 0 = Monday
+export type WeeklyGrid = number[][];
+
+// Headcount required in each hour of the week
+export interface DemandCurve {
+  enabled: boolean;
+  required: WeeklyGrid;
+}
+
+// Headcount a proposal puts on the floor each hour, and the
+// headcount-hours still short of demand
+export interface CoverageSummary {
+  staffed: WeeklyGrid;
+  uncoveredSlotHours: number;
+}
+
+// A shift to be staffed on the selected days (day 0 = Monday). Times
+// are "HH:MM"; an end at or before the start runs past midnight.
+export interface ShiftTemplate {
+  name: string;
+  start: string;
+  end: string;
+  breakMinutes: number;
+  requiredHeadcount: number;
+  days: boolean[];
+}
+
+export type DifferentialKind = 'flat' | 'percent';
+
+// Extra pay for hours worked in a time window on the selected days
+// (day 0 = Monday): a flat amount per hour or a percentage of the base
+// rate. An end at or before the start runs past midnight. Overlapping
+// differentials add up, and overtime multipliers apply to the rate
+// including them.
+export interface ShiftDifferential {
+  name: string;
+  days: boolean[];
+  start: string;
+  end: string;
+  kind: DifferentialKind;
+  amount: number;
+}
+
+// A window of the week whose hours earn the same differentials, e.g.
+// weekday nights, with its share of the hours proposals cover
+export interface CoverWindow {
+  label: string;
+  share: number;
+  flatPerHour: number;
+  percent: number;
+}
+
+// Where the hours proposals cover land, window by window: the gap
+// between current staffing and the demand curve or the shift templates,
+// or else the templates themselves when staffing already fills them
+export interface CoverDifferential {
+  windows: CoverWindow[];
+  basis: 'demand' | 'shifts';
+}
+
+// Fatigue limits on overtime proposals and rostered shifts
+export interface FatigueRules {
+  minRestHours: number;
+  maxConsecutiveDays: number;
+  maxDailyHours: number;
+}
+
+// Inputs consumed by the proposal engine (all figures are weekly)
+export interface CalculatorInputs {
+  workerGroups: WorkerGroup[];
+  partTimeHiring?: PartTimeHiring;
+  agencyStaffing?: AgencyStaffing;
+  laborBurden?: LaborBurden;
+  weeklyBudget?: WeeklyBudget;
+  uncoveredCost?: UncoveredCost;
+  absenceRates?: AbsenceRates;
+  holidayCalendar?: HolidayCalendar;
+  uncertainty?: Uncertainty;
+  seasonalDemand?: SeasonalDemand;
+  planningHorizon?: PlanningHorizon;
+  demandCurve?: DemandCurve;
+  shiftTemplates?: ShiftTemplate[];
+  shiftDifferentials?: ShiftDifferential[];
+  fatigueRules?: FatigueRules;
+  overtimeRule?: OvertimeRule;
+  laborLawPack?: LaborLawPackId;
+  complianceMode?: ComplianceMode;
+}
+
+// Aggregated figures rolled up across worker groups
+export interface CalculatorMetrics {
+  numberOfWorkers: number;
+  totalCurrentWeekHours: number;
+  totalTargetWeekHours: number;
+  currentWeeklyCost: number;
+  averageHourlyRate: number;
+  totalHourDifference: number;
+  maxTotalExtraHours: number;
+  // Hours that must be covered by someone else where target < current
+  totalHoursToReplace: number;
+  // Hours groups are asked to work beyond their current hours
+  totalHoursAboveCurrent: number;
+  // Share of scheduled hours actually worked after absence and attrition
+  availability: number;
+  // Extra scheduled hours needed so the required hours still get worked
+  absenceHours: number;
+  // Team hours taken off on public holidays in the planned week
+  holidayHours: number;
+  // Wages on top of the usual rate for hours worked on those holidays
+  holidayPremiumCost: number;
+  // Hours the workforce must be scheduled for: current hours plus any
+  // increase, plus absence cover
+  totalRequiredHours: number;
+  // Replaced, additional, absence-cover and holiday hours that proposals must cover
+  totalHoursToCover: number;
+}
+
+// Overtime handed to one worker group
+export interface OvertimeAllocation {
+  group: WorkerGroup;
+  workers: number;
+  hours: number;
+  hoursPerWorker: number;
+  cost: number;
+}
+
+// New workers hired into one role. Full-time hires work the role's
+// target hours; a part-timer, if any, works partTimeHours.
+export interface HirePlan {
+  group: WorkerGroup;
+  workers: number;
+  partTimeWorkers: number;
+  partTimeHours: number;
+  hours: number;
+  // Paid hours beyond the hours needed
+  idleHours: number;
+  // Pay per hour, with any shift differentials
+  hourlyRate: number;
+  cost: number;
+}
+
+// Agency hours booked in one role. Booked hours beyond what's covered
+// are paid but idle.
+export interface AgencyPlan {
+  group: WorkerGroup;
+  bookedHours: number;
+  coveredHours: number;
+  idleHours: number;
+  hourlyRate: number;
+  cost: number;
+}
+
+// Levers a proposal pulls, so it can be replayed week by week and
+// hour by hour
+export interface ProposalMix {
+  overtime: OvertimeAllocation[];
+  hire?: HirePlan;
+  agency?: AgencyPlan;
+}
+
+// Kinds of cover the optimizer can combine
+export type OptimizerLever = 'overtime' | 'hire' | 'agency';
+
+// The cheapest mix the optimizer found, with the levers it pulls
+export interface OptimizedMix {
+  mix: ProposalMix;
+  wages: number;
+  loadedCost: number;
+  idleHours: number;
+  // Hours left for lack of budget
+  uncoveredHours: number;
+  levers: OptimizerLever[];
+}
+
+// A proposal's loaded cost and cover over the simulated weeks. Hires
+// and agency bookings stay as proposed; overtime flexes up to the caps.
+export interface MonteCarloSummary {
+  p50Cost: number;
+  p90Cost: number;
+  // Share of weeks, 0-1, left with uncovered hours
+  uncoveredProbability: number;
+  averageUncoveredHours: number;
+}
+
+// One week of a proposal in horizon mode. Hours are productive hours
+// covered; cost is the loaded cost paid that week, including holiday
+// premiums for the holidays named.
+export interface HorizonWeek {
+  week: number;
+  holidays: string[];
+  overtimeHours: number;
+  newHireHours: number;
+  agencyHours: number;
+  uncoveredHours: number;
+  cost: number;
+  cumulativeCost: number;
+}
+
+export type ProposalEfficiency = 'Fully covered' | 'Partially covered';
+
+// A single coverage option returned by the engine
+export interface Proposal {
+  // Names the proposal across reruns, e.g. 'hire' or 'optimal-without-agency'
+  id: string;
+  option: string;
+  description: string;
+  totalWeeklyHours: number;
+  uncoveredHours: number;
+  // Hours paid to new hires but not needed, from rounding up to whole people
+  idleHours?: number;
+  // Wages only: hours × hourly rate, with overtime premiums
+  costImpact: number;
+  costPercentageChange: number;
+  // Wages plus payroll taxes, benefits and amortized hiring costs
+  loadedCost: number;
+  // When uncovered hours are priced: their lost revenue and penalties,
+  // and loaded cost plus that
+  uncoveredCost?: number;
+  economicCost?: number;
+  efficiency: ProposalEfficiency;
+  details: string;
+  // Legal limits the proposal breaks under the selected labor law pack
+  complianceIssues?: string[];
+  mix?: ProposalMix;
+  // Week-by-week plan, in horizon mode only
+  schedule?: HorizonWeek[];
+  // Hour-by-hour staffing against the demand curve, when one is entered
+  coverage?: CoverageSummary;
+}
+
+// A strategy builds one proposal, a ranked few, or null when it does
+// not apply. Strategies returning several apply any weekly budget
+// themselves; the engine trims single proposals to fit it.
+export type ProposalStrategy = (inputs: CalculatorInputs, metrics: CalculatorMetrics) => Proposal | Proposal[] | null;
+
+// Someone who can be rostered: an existing worker, a placeholder for a
+// proposed hire or agency booking. contractHours are worked before any
+// overtime; maxHours is the most they may be rostered for.
+export interface RosterWorker {
+  id: string;
+  name: string;
+  role: string;
+  kind: 'existing' | 'new-hire' | 'agency';
+  contractHours: number;
+  maxHours: number;
+}
+
+// One worker's week: the template index worked each day, or null for a day off
+export interface RosterRow {
+  worker: RosterWorker;
+  shifts: (number | null)[];
+}
+
+// Template slots left empty on a day
+export interface UnfilledShift {
+  day: number;
+  template: number;
+  missing: number;
+}
+
+// Checks run on a generated or edited roster
+export interface RosterCheck {
+  hoursByWorker: Record<string, number>;
+  issues: string[];
+  unfilled: UnfilledShift[];
+}
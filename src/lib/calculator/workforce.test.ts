@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { calculateProposals } from './engine';
+import { overtimeRulePresets } from './overtime';
+import { CalculatorInputs, FatigueRules } from './types';
+import { extraHoursCap, fatigueExtraHoursCap } from './workforce';
+
+const fatigueRules: FatigueRules = { minRestHours: 11, maxConsecutiveDays: 6, maxDailyHours: 12 };
+
+// Ten workers on 40 hours at $25 over a 5-day week
+function team(maxExtraHours: number, overrides: Partial<CalculatorInputs> = {}): CalculatorInputs {
+  return {
+    workerGroups: [
+      { role: 'Worker', headcount: 10, hourlyRate: 25, currentWeekHours: 40, targetWeekHours: 40, maxExtraHours },
+    ],
+    fatigueRules,
+    ...overrides,
+  };
+}
+
+describe('fatigueExtraHoursCap', () => {
+  it('is uncapped without fatigue rules', () => {
+    const inputs = team(30, { fatigueRules: undefined });
+    expect(fatigueExtraHoursCap(inputs.workerGroups[0], inputs)).toEqual({ cap: Infinity });
+  });
+
+  it('caps overtime at the tightest rule', () => {
+    const inputs = team(30);
+    // 12h days over 5 days allow 60h; 11h rest would allow 65h
+    expect(fatigueExtraHoursCap(inputs.workerGroups[0], inputs)).toEqual({ cap: 20, rule: 'at most 12h per day' });
+
+    const rested = team(30, { fatigueRules: { ...fatigueRules, minRestHours: 15 } });
+    expect(fatigueExtraHoursCap(rested.workerGroups[0], rested)).toEqual({
+      cap: 5,
+      rule: 'at least 15h rest between shifts',
+    });
+  });
+
+  it('allows no overtime on a week longer than the consecutive-day limit', () => {
+    const inputs = team(30, { overtimeRule: overtimeRulePresets.sundayPremium.rule });
+    expect(fatigueExtraHoursCap(inputs.workerGroups[0], inputs)).toEqual({
+      cap: 0,
+      rule: 'at most 6 consecutive working days',
+    });
+  });
+});
+
+describe('extraHoursCap', () => {
+  it('takes the lower of the group limit and the fatigue cap', () => {
+    expect(extraHoursCap(team(5).workerGroups[0], team(5))).toBe(5);
+    expect(extraHoursCap(team(30).workerGroups[0], team(30))).toBe(20);
+  });
+
+  it('names the fatigue rule that left hours uncovered', () => {
+    const [group] = team(30).workerGroups;
+    const inputs = team(30, { workerGroups: [{ ...group, targetWeekHours: 63 }] });
+    const overtime = calculateProposals(inputs).find((proposal) => proposal.id === 'overtime');
+
+    // 230 hours short; 20 each is all the 12h day allows
+    expect(overtime).toMatchObject({ uncoveredHours: 30 });
+    expect(overtime?.details).toContain('Fatigue rules cap Worker overtime at 20h per worker (at most 12h per day)');
+  });
+});
@@ -0,0 +1,194 @@
+import { coverPay, coverRate } from './differentials';
+import { getLaborLawPack, legalExtraHoursCap } from './labor-law';
+import { roundHours } from './metrics';
+import { DEFAULT_OVERTIME_RULE, distributedOvertimePay, overtimePay } from './overtime';
+import { AgencyPlan, AgencyStaffing, CalculatorInputs, HirePlan, OvertimeAllocation, PartTimeHiring, WorkerGroup } from './types';
+
+// Hours a group is scheduled for before any overtime
+export function scheduledHours(group: WorkerGroup): number {
+  return Math.min(group.currentWeekHours, group.targetWeekHours);
+}
+
+// Most extra hours per worker the fatigue rules allow, and the rule that
+// sets the limit. Weekly hours are spread evenly over the rule's working
+// days, so longer days mean more hours and less rest between shifts.
+export function fatigueExtraHoursCap(group: WorkerGroup, inputs: CalculatorInputs): { cap: number; rule?: string } {
+  const rules = inputs.fatigueRules;
+  if (!rules) {
+    return { cap: Infinity };
+  }
+
+  const days = (inputs.overtimeRule ?? DEFAULT_OVERTIME_RULE).daysPerWeek;
+  const base = scheduledHours(group);
+  const limits = [
+    // The schedule already runs too many days in a row; overtime would add to the strain
+    { cap: days > rules.maxConsecutiveDays ? 0 : Infinity, rule: `at most ${rules.maxConsecutiveDays} consecutive working days` },
+    { cap: rules.maxDailyHours * days - base, rule: `at most ${rules.maxDailyHours}h per day` },
+    { cap: (24 - rules.minRestHours) * days - base, rule: `at least ${rules.minRestHours}h rest between shifts` },
+  ];
+  const tightest = limits.reduce((current, limit) => (limit.cap < current.cap ? limit : current));
+
+  return { cap: Math.max(0, tightest.cap), rule: tightest.rule };
+}
+
+// Most extra hours each worker in the group may take, within the fatigue
+// rules. In reject mode overtime also stops at the legal limit.
+export function extraHoursCap(group: WorkerGroup, inputs: CalculatorInputs): number {
+  const cap = Math.min(group.maxExtraHours, fatigueExtraHoursCap(group, inputs).cap);
+  if (inputs.complianceMode !== 'reject') {
+    return cap;
+  }
+
+  const rule = inputs.overtimeRule ?? DEFAULT_OVERTIME_RULE;
+  const pack = getLaborLawPack(inputs.laborLawPack);
+  return Math.min(cap, legalExtraHoursCap(pack, scheduledHours(group), rule.daysPerWeek));
+}
+
+// Hand out overtime to the groups with the cheapest extra hour first
+export function allocateOvertime(inputs: CalculatorInputs, hoursNeeded: number): OvertimeAllocation[] {
+  const rule = inputs.overtimeRule ?? DEFAULT_OVERTIME_RULE;
+  const statutoryRules = getLaborLawPack(inputs.laborLawPack).overtimeRules;
+
+  const candidates = inputs.workerGroups
+    .map((group) => {
+      const cap = extraHoursCap(group, inputs);
+      const unitCost =
+        cap > 0
+          ? coverPay(group, inputs, (rate) => overtimePay(scheduledHours(group), cap, rate, rule, statutoryRules)) / cap
+          : 0;
+      return { group, cap, unitCost };
+    })
+    .filter((candidate) => candidate.cap > 0 && candidate.group.headcount > 0)
+    .sort((a, b) => a.unitCost - b.unitCost);
+
+  const allocations: OvertimeAllocation[] = [];
+  let remaining = hoursNeeded;
+
+  candidates.forEach(({ group, cap }) => {
+    if (remaining <= 0) {
+      return;
+    }
+
+    const hours = Math.min(remaining, group.headcount * cap);
+    allocations.push({
+      group,
+      workers: Math.ceil(hours / cap),
+      hours,
+      hoursPerWorker: Math.min(cap, hours),
+      cost: coverPay(group, inputs, (rate) =>
+        distributedOvertimePay(hours, cap, scheduledHours(group), rate, rule, statutoryRules)
+      ),
+    });
+    remaining = roundHours(remaining - hours);
+  });
+
+  return allocations;
+}
+
+// Hires needed in one role. With part-time hiring, the fraction left
+// after whole full-time weeks goes to one part-timer booked for at least
+// the minimum shift. Hires are paid hourlyRate, differentials included.
+function hirePlanFor(group: WorkerGroup, hoursNeeded: number, hourlyRate: number, partTime?: PartTimeHiring): HirePlan {
+  let workers = Math.ceil(hoursNeeded / group.targetWeekHours);
+  let partTimeHours = 0;
+
+  if (partTime?.enabled) {
+    const fullTimeWorkers = Math.floor(hoursNeeded / group.targetWeekHours);
+    const remainder = roundHours(hoursNeeded - fullTimeWorkers * group.targetWeekHours);
+    const bookedHours = Math.max(remainder, partTime.minShiftHours);
+
+    if (remainder > 0 && bookedHours < group.targetWeekHours) {
+      workers = fullTimeWorkers;
+      partTimeHours = bookedHours;
+    }
+  }
+
+  const hours = roundHours(workers * group.targetWeekHours + partTimeHours);
+
+  return {
+    group,
+    workers,
+    partTimeWorkers: partTimeHours > 0 ? 1 : 0,
+    partTimeHours,
+    hours,
+    idleHours: roundHours(hours - hoursNeeded),
+    hourlyRate,
+    cost: Math.round(hours * hourlyRate * 100) / 100,
+  };
+}
+
+// Cheapest role to hire into
+export function chooseHire(inputs: CalculatorInputs, hoursNeeded: number, partTime?: PartTimeHiring): HirePlan | null {
+  let best: HirePlan | null = null;
+
+  inputs.workerGroups.forEach((group) => {
+    if (group.targetWeekHours <= 0) {
+      return;
+    }
+
+    const plan = hirePlanFor(group, hoursNeeded, coverRate(group, inputs), partTime);
+    const headcount = plan.workers + plan.partTimeWorkers;
+    if (!best || plan.cost < best.cost || (plan.cost === best.cost && headcount < best.workers + best.partTimeWorkers)) {
+      best = plan;
+    }
+  });
+
+  return best;
+}
+
+// Agency hours for the role with the cheapest billed rate, in whole
+// booking blocks and no more than the agency can supply
+export function planAgency(inputs: CalculatorInputs, hoursNeeded: number, agency: AgencyStaffing): AgencyPlan | null {
+  const group = inputs.workerGroups.reduce<WorkerGroup | null>(
+    (cheapest, candidate) => (!cheapest || candidate.hourlyRate < cheapest.hourlyRate ? candidate : cheapest),
+    null
+  );
+  const block = agency.minBookingHours;
+  const availableHours = Math.floor(agency.maxWeeklyHours / block) * block;
+  if (!group || hoursNeeded <= 0 || availableHours <= 0) {
+    return null;
+  }
+
+  const bookedHours = Math.min(Math.ceil(hoursNeeded / block) * block, availableHours);
+  const coveredHours = Math.min(hoursNeeded, bookedHours);
+  const hourlyRate = coverRate(group, inputs) * (1 + agency.markupPercent / 100);
+
+  return {
+    group,
+    bookedHours,
+    coveredHours,
+    idleHours: roundHours(bookedHours - coveredHours),
+    hourlyRate,
+    cost: Math.round(bookedHours * hourlyRate * 100) / 100,
+  };
+}
+
+// e.g. "2 full-time + 1 part-time worker (Junior, 12h)"
+export function describeHire(hire: HirePlan, adjective?: string): string {
+  if (hire.partTimeWorkers === 0) {
+    return workersInRole(hire.workers, hire.group.role, adjective);
+  }
+
+  const prefix = adjective ? `${adjective} ` : '';
+  if (hire.workers === 0) {
+    return `${pluralize(hire.partTimeWorkers, `${prefix}part-time worker`)} (${hire.group.role}, ${hire.partTimeHours}h)`;
+  }
+
+  return `${hire.workers} ${prefix}full-time + ${hire.partTimeWorkers} part-time worker${hire.workers + hire.partTimeWorkers === 1 ? '' : 's'} (${hire.group.role}, ${hire.partTimeHours}h part-time)`;
+}
+
+export function pluralize(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+// e.g. "2 additional workers (Senior)"
+export function workersInRole(count: number, role: string, adjective?: string): string {
+  return `${pluralize(count, adjective ? `${adjective} worker` : 'worker')} (${role})`;
+}
+
+// Workers whose hours drop to a lower target
+export function reducingWorkers(groups: WorkerGroup[]): number {
+  return groups
+    .filter((group) => group.targetWeekHours < group.currentWeekHours)
+    .reduce((sum, group) => sum + group.headcount, 0);
+}